@@ -8,6 +8,9 @@ import Results from "./pages/Results";
 import About from "./pages/About";
 import TravelPlanner from "./pages/TravelPlanner";
 import TravelResults from "./pages/TravelResults";
+import BestDates from "./pages/BestDates";
+import ClimateCalendar from "./pages/ClimateCalendar";
+import Compare from "./pages/Compare";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +27,9 @@ const App = () => (
           <Route path="/about" element={<About />} />
           <Route path="/travel" element={<TravelPlanner />} />
           <Route path="/travel-results" element={<TravelResults />} />
+          <Route path="/best-dates" element={<BestDates />} />
+          <Route path="/calendar" element={<ClimateCalendar />} />
+          <Route path="/compare" element={<Compare />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
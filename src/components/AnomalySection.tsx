@@ -0,0 +1,175 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Badge } from "@/components/ui/badge";
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { metricLabels } from "@/lib/metrics";
+import { unitLabel, UnitSystem } from "@shared/units.ts";
+import { YearAnomaly } from "@/pages/api/outlook";
+
+type AnomalySeries = "t_max_anomaly" | "t_min_anomaly" | "precip_anomaly";
+
+interface AnomalySectionProps {
+  // Archived years that can be picked
+  years: number[];
+  // The picked year, which leads `anomaly` while its outlook loads
+  year: number | undefined;
+  anomaly: YearAnomaly | null;
+  onYearChange: (year: number | undefined) => void;
+  units: UnitSystem;
+  disabled?: boolean;
+}
+
+const NO_YEAR = "none";
+
+// Ranks this far from the middle mark a year as unusual for that variable
+const UNUSUAL_RANK = 10;
+
+function describeRank(rank: number | null, yearsN: number): string {
+  if (rank === null) return "No data";
+  return `Above ${Math.round(rank)}% of ${yearsN} years`;
+}
+
+// How a picked past year's window compared with every archived year: its
+// rank per variable and each day's departure from the all-year average
+export function AnomalySection({ years, year, anomaly, onYearChange, units, disabled }: AnomalySectionProps) {
+  const [series, setSeries] = useState<AnomalySeries>("t_max_anomaly");
+
+  const tempUnit = unitLabel("temperature", units);
+  const precipUnit = unitLabel("precipitation", units);
+  const seriesInfo: Record<AnomalySeries, { label: string; unit: string; digits: number }> = {
+    t_max_anomaly: { label: "High temperature", unit: tempUnit, digits: 1 },
+    t_min_anomaly: { label: "Low temperature", unit: tempUnit, digits: 1 },
+    precip_anomaly: { label: "Precipitation", unit: ` ${precipUnit}`, digits: units === "imperial" ? 2 : 1 },
+  };
+  const info = seriesInfo[series];
+  // Above-normal precipitation is wet (blue); above-normal temperature is warm (red)
+  const colorOf = (value: number) =>
+    series === "precip_anomaly" ? (value >= 0 ? "#0ea5e9" : "#f59e0b") : value >= 0 ? "#ef4444" : "#3b82f6";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={year === undefined ? NO_YEAR : String(year)}
+          onValueChange={(value) => onYearChange(value === NO_YEAR ? undefined : Number(value))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Pick a year" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_YEAR}>No year</SelectItem>
+            {[...years].reverse().map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {anomaly && (
+          <p className="text-sm text-muted-foreground">
+            {anomaly.days[0]?.date} to {anomaly.days[anomaly.days.length - 1]?.date} against every archived year
+          </p>
+        )}
+      </div>
+
+      {anomaly && (
+        <>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variable</TableHead>
+                  <TableHead className="text-right">{anomaly.year}</TableHead>
+                  <TableHead className="text-right">Typical year</TableHead>
+                  <TableHead>Percentile rank</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {anomaly.variables.map((row) => {
+                  const digits = row.var === "precip_mm" && units === "imperial" ? 2 : 1;
+                  const unusual =
+                    row.percentile_rank !== null &&
+                    (row.percentile_rank <= UNUSUAL_RANK || row.percentile_rank >= 100 - UNUSUAL_RANK);
+                  return (
+                    <TableRow key={row.var}>
+                      <TableCell className="font-medium">{metricLabels[row.var] || row.var}</TableCell>
+                      <TableCell className="text-right">
+                        {row.value === null ? "—" : `${row.value.toFixed(digits)} ${row.unit}`}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {row.climatology_p50 === null ? "—" : `${row.climatology_p50.toFixed(digits)} ${row.unit}`}
+                      </TableCell>
+                      <TableCell>
+                        <span className="mr-2">{describeRank(row.percentile_rank, row.years_n)}</span>
+                        {unusual && <Badge variant="secondary">Unusual</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h4 className="font-semibold">Daily departure from normal</h4>
+              <ToggleGroup
+                type="single"
+                value={series}
+                onValueChange={(value) => value && setSeries(value as AnomalySeries)}
+                className="justify-start flex-wrap"
+              >
+                <ToggleGroupItem value="t_max_anomaly">High</ToggleGroupItem>
+                <ToggleGroupItem value="t_min_anomaly">Low</ToggleGroupItem>
+                <ToggleGroupItem value="precip_anomaly">Precipitation</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={anomaly.days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                  fontSize={12}
+                  stroke="hsl(var(--muted-foreground))"
+                />
+                <YAxis
+                  fontSize={12}
+                  stroke="hsl(var(--muted-foreground))"
+                  label={{ value: info.unit.trim(), angle: -90, position: "insideLeft" }}
+                />
+                <Tooltip
+                  labelFormatter={(value) =>
+                    new Date(value).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" })
+                  }
+                  formatter={(value: number) => [`${value > 0 ? "+" : ""}${value.toFixed(info.digits)}${info.unit}`, info.label]}
+                  contentStyle={{
+                    backgroundColor: "rgba(255, 255, 255, 0.95)",
+                    border: "1px solid rgba(0,0,0,0.1)",
+                    borderRadius: "8px",
+                  }}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Bar dataKey={series} name={info.label} radius={[4, 4, 0, 0]}>
+                  {anomaly.days.map((day) => (
+                    <Cell key={day.date} fill={colorOf(day[series] ?? 0)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
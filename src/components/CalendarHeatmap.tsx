@@ -0,0 +1,89 @@
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+
+export interface HeatmapDay {
+  date: string;
+  value: number | null;
+  // Hover text; defaults to the date and value
+  title?: string;
+}
+
+// A colour for values from `min` up to the next band; list bands highest first
+export interface HeatmapBand {
+  min: number;
+  className: string;
+  label: string;
+}
+
+interface CalendarHeatmapProps {
+  days: HeatmapDay[];
+  bands: HeatmapBand[];
+  legendTitle: string;
+  // Dates to outline, such as the top-ranked ones
+  highlighted?: string[];
+  onSelect?: (date: string) => void;
+}
+
+// Calendar grid of daily values, one block of weeks per month
+export function CalendarHeatmap({ days, bands, legendTitle, highlighted = [], onSelect }: CalendarHeatmapProps) {
+  const bandClass = (value: number | null) =>
+    value === null ? "bg-muted" : bands.find((band) => value >= band.min)?.className ?? "bg-muted";
+
+  const months = new Map<string, HeatmapDay[]>();
+  days.forEach((day) => {
+    const key = day.date.slice(0, 7);
+    months.set(key, [...(months.get(key) ?? []), day]);
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-6">
+        {[...months.entries()].map(([month, monthDays]) => {
+          // Pad the first week so columns line up with weekdays (Sunday first)
+          const firstWeekday = parseISO(`${month}-01`).getDay();
+          const leading = parseISO(monthDays[0].date).getDate() - 1 + firstWeekday;
+
+          return (
+            <div key={month}>
+              <p className="text-sm font-medium mb-2">{format(parseISO(`${month}-01`), "MMMM yyyy")}</p>
+              <div className="grid grid-cols-7 gap-1">
+                {Array.from({ length: leading }, (_, idx) => (
+                  <div key={`pad-${idx}`} className="h-6 w-6" />
+                ))}
+                {monthDays.map((day) => (
+                  <button
+                    key={day.date}
+                    type="button"
+                    onClick={() => onSelect?.(day.date)}
+                    title={day.title ?? `${format(parseISO(day.date), "MMM d")}: ${day.value ?? "no data"}`}
+                    className={cn(
+                      "h-6 w-6 rounded-sm text-[10px] leading-6 text-center text-foreground/80",
+                      bandClass(day.value),
+                      highlighted.includes(day.date) && "ring-2 ring-primary ring-offset-1"
+                    )}
+                  >
+                    {parseISO(day.date).getDate()}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>{legendTitle}:</span>
+        {bands.map((band) => (
+          <span key={band.label} className="flex items-center gap-1">
+            <span className={cn("inline-block h-3 w-3 rounded-sm", band.className)} />
+            {band.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-muted" />
+          No data
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { metricLabels } from "@/lib/metrics";
+import { bestAndWorst, MetricPreference, metricPreferences } from "@/lib/compare";
+import { OutlookResponse } from "@/pages/api/outlook";
+
+export interface CompareColumn {
+  label: string;
+  color: string;
+  // The outlook as displayed, and in metric units for ranking
+  view: OutlookResponse | null;
+  metric: OutlookResponse | null;
+  error?: string;
+}
+
+interface CompareTableProps {
+  columns: CompareColumn[];
+}
+
+interface CompareRow {
+  key: string;
+  label: string;
+  unit: string;
+  preference: MetricPreference;
+  // Shown text and metric value per column; null where a location has none
+  cells: ({ text: string; detail?: string } | null)[];
+  values: (number | null)[];
+}
+
+const lowerIsBetter: MetricPreference = { better: "lower" };
+
+function buildRows(columns: CompareColumn[]): CompareRow[] {
+  const first = columns.find((c) => c.view)?.view;
+  if (!first) return [];
+
+  const summaryRows = first.summary.map((row): CompareRow => ({
+    key: row.var,
+    label: metricLabels[row.var] || row.var,
+    unit: row.unit,
+    preference: metricPreferences[row.var] ?? lowerIsBetter,
+    cells: columns.map((c) => {
+      const shown = c.view?.summary.find((r) => r.var === row.var);
+      if (!shown || shown.p50 === null) return null;
+      return { text: shown.p50.toFixed(1), detail: `${shown.p10.toFixed(1)}–${shown.p90.toFixed(1)}` };
+    }),
+    values: columns.map((c) => c.metric?.summary.find((r) => r.var === row.var)?.p50 ?? null),
+  }));
+
+  const precipitationRow: CompareRow = {
+    key: "precip_probability",
+    label: "Chance of Precipitation",
+    unit: "%",
+    preference: lowerIsBetter,
+    cells: columns.map((c) => (c.view ? { text: `${c.view.forecast.precipitation.probability}` } : null)),
+    values: columns.map((c) => c.metric?.forecast.precipitation.probability ?? null),
+  };
+
+  const riskTypes = [...new Set(columns.flatMap((c) => c.view?.risk_labels.map((r) => r.risk_type) ?? []))];
+  const riskRows = riskTypes.map((type): CompareRow => {
+    const labelOf = columns.flatMap((c) => c.view?.risk_labels ?? []).find((r) => r.risk_type === type);
+    const probability = (c: CompareColumn) => c.view?.risk_labels.find((r) => r.risk_type === type)?.probability_percent;
+    return {
+      key: `risk:${type}`,
+      label: `${labelOf?.label || type.replace(/_/g, " ").replace(/\b\w/g, (ch) => ch.toUpperCase())} Risk`,
+      unit: "%",
+      preference: lowerIsBetter,
+      cells: columns.map((c) => (probability(c) === undefined ? null : { text: probability(c).toFixed(1) })),
+      values: columns.map((c) => probability(c) ?? null),
+    };
+  });
+
+  return [...summaryRows, precipitationRow, ...riskRows];
+}
+
+// Median of every statistic (with its 10th–90th percentile range) per
+// location, marking the best and worst location on each row
+export function CompareTable({ columns }: CompareTableProps) {
+  const rows = buildRows(columns);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Side-by-Side Summary</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Medians with the 10th–90th percentile range beneath. The best location on each row is
+          marked <span className="px-1 rounded bg-emerald-100 text-emerald-900">green</span> and the
+          worst <span className="px-1 rounded bg-rose-100 text-rose-900">red</span>; temperatures and
+          humidity count as better the closer they are to comfortable.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Variable</TableHead>
+                {columns.map((column, index) => (
+                  <TableHead key={index}>
+                    <span className="inline-block h-2 w-2 rounded-full mr-2" style={{ backgroundColor: column.color }} />
+                    {column.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const { best, worst } = bestAndWorst(row.values, row.preference);
+                return (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      {row.label}
+                      <span className="text-muted-foreground ml-1">({row.unit})</span>
+                    </TableCell>
+                    {row.cells.map((cell, index) => (
+                      <TableCell
+                        key={index}
+                        className={cn(
+                          index === best && "bg-emerald-100 text-emerald-900 font-semibold",
+                          index === worst && "bg-rose-100 text-rose-900"
+                        )}
+                      >
+                        {cell ? (
+                          <>
+                            {cell.text}
+                            {cell.detail && <div className="text-xs text-muted-foreground">{cell.detail}</div>}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+              {columns.some((c) => c.error) && (
+                <TableRow>
+                  <TableCell className="font-medium">Status</TableCell>
+                  {columns.map((column, index) => (
+                    <TableCell key={index} className="text-xs text-destructive">
+                      {column.error}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,35 +7,32 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { metricLabels } from "@/lib/metrics";
+import { METRIC_QUANTITIES, UnitSystem } from "@shared/units.ts";
 
 export interface SummaryRow {
   var: string;
   unit: string;
-  mean: number;
-  std: number;
-  p10: number;
-  p25: number;
-  p50: number;
-  p75: number;
-  p90: number;
+  mean: number | null;
+  std: number | null;
+  p10: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
 }
 
 interface DetailsTableProps {
   summary: SummaryRow[];
+  units: UnitSystem;
   windowDays?: number;
 }
 
-const variableLabels: Record<string, string> = {
-  t_mean: "Mean Temperature",
-  t_max: "Max Temperature",
-  t_min: "Min Temperature",
-  rh_mean: "Mean Humidity",
-  dew_point: "Dew Point",
-  wind10m: "Wind Speed (10m)",
-  precip_mm: "Precipitation",
-};
+// Statistics of a variable the provider left blank arrive as null; inches of
+// precipitation keep hundredths
+const fixed = (value: number | null, digits: number) => (value === null ? "—" : value.toFixed(digits));
 
-export function DetailsTable({ summary, windowDays = 15 }: DetailsTableProps) {
+export function DetailsTable({ summary, units, windowDays = 15 }: DetailsTableProps) {
   return (
     <Card>
       <CardHeader>
@@ -63,23 +60,26 @@ export function DetailsTable({ summary, windowDays = 15 }: DetailsTableProps) {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {summary.map((row) => (
-                <TableRow key={row.var}>
-                  <TableCell className="font-medium">
-                    {variableLabels[row.var] || row.var}
-                    <span className="text-muted-foreground ml-1">
-                      ({row.unit})
-                    </span>
-                  </TableCell>
-                  <TableCell>{row.mean.toFixed(1)}</TableCell>
-                  <TableCell>{row.std.toFixed(1)}</TableCell>
-                  <TableCell>{row.p10.toFixed(1)}</TableCell>
-                  <TableCell>{row.p25.toFixed(1)}</TableCell>
-                  <TableCell className="font-semibold">{row.p50.toFixed(1)}</TableCell>
-                  <TableCell>{row.p75.toFixed(1)}</TableCell>
-                  <TableCell>{row.p90.toFixed(1)}</TableCell>
-                </TableRow>
-              ))}
+              {summary.map((row) => {
+                const digits = METRIC_QUANTITIES[row.var] === "precipitation" && units === "imperial" ? 2 : 1;
+                return (
+                  <TableRow key={row.var}>
+                    <TableCell className="font-medium">
+                      {metricLabels[row.var] || row.var}
+                      <span className="text-muted-foreground ml-1">
+                        ({row.unit})
+                      </span>
+                    </TableCell>
+                    <TableCell>{fixed(row.mean, digits)}</TableCell>
+                    <TableCell>{fixed(row.std, digits)}</TableCell>
+                    <TableCell>{fixed(row.p10, digits)}</TableCell>
+                    <TableCell>{fixed(row.p25, digits)}</TableCell>
+                    <TableCell className="font-semibold">{fixed(row.p50, digits)}</TableCell>
+                    <TableCell>{fixed(row.p75, digits)}</TableCell>
+                    <TableCell>{fixed(row.p90, digits)}</TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { unitLabel, UnitSystem } from "@shared/units.ts";
+import { RawSample } from "@/pages/api/outlook";
+
+type SampleColumn = keyof RawSample;
+
+interface RawSampleTableProps {
+  samples: RawSample[];
+  units: UnitSystem;
+}
+
+const PAGE_SIZE = 25;
+
+// Sort nulls last whichever way the column is ordered
+function compareSamples(a: RawSample, b: RawSample, column: SampleColumn, ascending: boolean): number {
+  const left = a[column];
+  const right = b[column];
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const order = typeof left === "string" ? left.localeCompare(right as string) : left - (right as number);
+  return ascending ? order : -order;
+}
+
+// Pages to offer: the first, the last and those around the current one,
+// with null where a run of pages is skipped
+function pageList(current: number, count: number): (number | null)[] {
+  const pages = [...new Set([0, current - 1, current, current + 1, count - 1])]
+    .filter((page) => page >= 0 && page < count)
+    .sort((a, b) => a - b);
+  return pages.flatMap((page, idx) => (idx > 0 && page - pages[idx - 1] > 1 ? [null, page] : [page]));
+}
+
+// Every pooled daily sample behind the statistics, sortable by any column
+export function RawSampleTable({ samples, units }: RawSampleTableProps) {
+  const [sortColumn, setSortColumn] = useState<SampleColumn>("date_iso");
+  const [ascending, setAscending] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const tempUnit = unitLabel("temperature", units);
+  const columns: { key: SampleColumn; label: string; digits?: number }[] = [
+    { key: "date_iso", label: "Date" },
+    { key: "t_mean", label: `Mean (${tempUnit})`, digits: 1 },
+    { key: "t_max", label: `Max (${tempUnit})`, digits: 1 },
+    { key: "t_min", label: `Min (${tempUnit})`, digits: 1 },
+    { key: "rh_mean", label: "Humidity (%)", digits: 0 },
+    { key: "dew_point", label: `Dew point (${tempUnit})`, digits: 1 },
+    { key: "wind10m", label: `Wind (${unitLabel("wind", units)})`, digits: 1 },
+    { key: "precip_mm", label: `Precip (${unitLabel("precipitation", units)})`, digits: units === "imperial" ? 2 : 1 },
+  ];
+
+  const pageCount = Math.max(1, Math.ceil(samples.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const sorted = [...samples].sort((a, b) => compareSamples(a, b, sortColumn, ascending));
+  const rows = sorted.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const sortBy = (column: SampleColumn) => {
+    if (column === sortColumn) {
+      setAscending(!ascending);
+    } else {
+      setSortColumn(column);
+      setAscending(true);
+    }
+    setPage(0);
+  };
+
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.max(0, Math.min(pageCount - 1, target)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => {
+                const SortIcon = column.key !== sortColumn ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead key={column.key} className={cn(column.key !== "date_iso" && "text-right")}>
+                    <button
+                      type="button"
+                      onClick={() => sortBy(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      aria-label={`Sort by ${column.label}`}
+                    >
+                      {column.label}
+                      <SortIcon className={cn("h-3 w-3", column.key !== sortColumn && "opacity-40")} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((sample) => (
+              <TableRow key={sample.date_iso}>
+                {columns.map((column) => {
+                  const value = sample[column.key];
+                  return (
+                    <TableCell key={column.key} className={cn(column.key === "date_iso" ? "font-medium" : "text-right")}>
+                      {value === null ? "—" : typeof value === "number" ? value.toFixed(column.digits) : value}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {samples.length === 0
+            ? "No samples"
+            : `Showing ${currentPage * PAGE_SIZE + 1}–${currentPage * PAGE_SIZE + rows.length} of ${samples.length} daily samples`}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={goTo(currentPage - 1)}
+                  aria-disabled={currentPage === 0}
+                  className={cn(currentPage === 0 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+              {pageList(currentPage, pageCount).map((target, idx) => (
+                <PaginationItem key={target ?? `gap-${idx}`}>
+                  {target === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={target === currentPage} onClick={goTo(target)}>
+                      {target + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={goTo(currentPage + 1)}
+                  aria-disabled={currentPage === pageCount - 1}
+                  className={cn(currentPage === pageCount - 1 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
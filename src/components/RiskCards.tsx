@@ -6,16 +6,14 @@ import {
   Wind,
   CloudRain,
   ThermometerSun,
+  AlertTriangle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 export interface RiskLabel {
-  risk_type:
-    | "very_hot"
-    | "very_cold"
-    | "very_windy"
-    | "very_wet"
-    | "very_uncomfortable";
+  // Built-in rule sets use the five known types; custom rule sets may add more
+  risk_type: string;
+  label?: string;
   level: "low" | "medium" | "high";
   probability_percent: number;
   rule_applied: string;
@@ -94,6 +92,28 @@ const riskConfig = {
   },
 };
 
+// Fallback for risk types defined by custom rule sets
+const genericRiskConfig = {
+  label: "",
+  icon: AlertTriangle,
+  colorClass: {
+    low: "bg-gradient-to-br from-amber-100 to-yellow-50 dark:from-amber-950/30 dark:to-yellow-900/20 border-amber-300 dark:border-amber-800",
+    medium: "bg-gradient-to-br from-amber-200 to-yellow-100 dark:from-amber-900/50 dark:to-yellow-800/30 border-amber-400 dark:border-amber-700",
+    high: "bg-gradient-to-br from-amber-500/90 to-orange-500/80 dark:from-amber-600/90 dark:to-orange-600/80 border-amber-600 dark:border-amber-500 shadow-[0_0_30px_rgba(245,158,11,0.5)]",
+  },
+  iconColor: "text-amber-600",
+  animation: "animate-pulse",
+  emoji: "⚠️",
+  description: "Custom risk condition",
+};
+
+function getRiskConfig(risk: RiskLabel) {
+  const config = riskConfig[risk.risk_type as keyof typeof riskConfig];
+  if (config) return risk.label ? { ...config, label: risk.label } : config;
+  const label = risk.label || risk.risk_type.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+  return { ...genericRiskConfig, label, description: risk.rule_applied };
+}
+
 const levelConfig = {
   low: { label: "Low", color: "bg-emerald-600 text-white font-bold shadow-md" },
   medium: { label: "Medium", color: "bg-amber-600 text-white font-bold shadow-md" },
@@ -103,7 +123,7 @@ const levelConfig = {
 export function RiskCards({ data, featured = false }: RiskCardsProps) {
   if (featured && data.length === 1) {
     const risk = data[0];
-    const config = riskConfig[risk.risk_type];
+    const config = getRiskConfig(risk);
     const levelInfo = levelConfig[risk.level] || levelConfig.low;
     const Icon = config.icon;
 
@@ -149,7 +169,7 @@ export function RiskCards({ data, featured = false }: RiskCardsProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {data.map((risk) => {
-        const config = riskConfig[risk.risk_type];
+        const config = getRiskConfig(risk);
         const Icon = config.icon;
         const levelInfo = levelConfig[risk.level] || levelConfig.low;
 
@@ -0,0 +1,97 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { PRESET_RULE_SETS, RuleSet, validateRuleSet } from "@shared/risk-rules.ts";
+
+interface RuleSetPickerProps {
+  // A preset id or an uploaded rule set
+  value: string | RuleSet;
+  onChange: (value: string | RuleSet) => void;
+  disabled?: boolean;
+}
+
+const UPLOADED = "__uploaded__";
+
+export function RuleSetPicker({ value, onChange, disabled = false }: RuleSetPickerProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const uploaded = typeof value === "string" ? null : value;
+  const active = typeof value === "string"
+    ? PRESET_RULE_SETS.find((rs) => rs.id === value)
+    : value;
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const errors = validateRuleSet(parsed);
+      if (errors.length > 0) {
+        toast({
+          title: "Invalid rule set",
+          description: errors.join(" "),
+          variant: "destructive",
+        });
+        return;
+      }
+      onChange(parsed as RuleSet);
+    } catch (err) {
+      console.error("Error reading rule set:", err);
+      toast({
+        title: "Invalid rule set",
+        description: "The file is not valid JSON.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="rule-set">Risk rule set</Label>
+      <div className="flex gap-2">
+        <Select
+          value={uploaded ? UPLOADED : (value as string)}
+          onValueChange={(id) => id !== UPLOADED && onChange(id)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="rule-set" className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRESET_RULE_SETS.map((rs) => (
+              <SelectItem key={rs.id} value={rs.id}>
+                {rs.name}
+              </SelectItem>
+            ))}
+            {uploaded && <SelectItem value={UPLOADED}>{uploaded.name} (uploaded)</SelectItem>}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          className="gap-2"
+          onClick={() => fileInput.current?.click()}
+          disabled={disabled}
+        >
+          <Upload className="h-4 w-4" />
+          Upload JSON
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {active?.description && (
+        <p className="text-xs text-muted-foreground">{active.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, X } from "lucide-react";
+import { metricLabels } from "@/lib/metrics";
+
+export interface ThresholdQuery {
+  metric: string;
+  comparator: ">" | ">=" | "<" | "<=";
+  threshold: number;
+}
+
+export interface ThresholdResult extends ThresholdQuery {
+  probability_percent: number;
+}
+
+interface ThresholdEditorProps {
+  queries: ThresholdQuery[];
+  results: ThresholdResult[];
+  units: Record<string, string>;
+  onChange: (queries: ThresholdQuery[]) => void;
+  disabled?: boolean;
+}
+
+const comparatorLabels: Record<ThresholdQuery["comparator"], string> = {
+  ">": ">",
+  ">=": "≥",
+  "<": "<",
+  "<=": "≤",
+};
+
+export function ThresholdEditor({ queries, results, units, onChange, disabled = false }: ThresholdEditorProps) {
+  const [metric, setMetric] = useState("t_max");
+  const [comparator, setComparator] = useState<ThresholdQuery["comparator"]>(">=");
+  const [threshold, setThreshold] = useState("");
+
+  const addQuery = () => {
+    const value = parseFloat(threshold);
+    if (isNaN(value)) return;
+    onChange([...queries, { metric, comparator, threshold: value }]);
+    setThreshold("");
+  };
+
+  const isCustom = (result: ThresholdResult) =>
+    queries.some(
+      (q) => q.metric === result.metric && q.comparator === result.comparator && q.threshold === result.threshold
+    );
+
+  const removeQuery = (result: ThresholdResult) => {
+    onChange(
+      queries.filter(
+        (q) => !(q.metric === result.metric && q.comparator === result.comparator && q.threshold === result.threshold)
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="threshold-metric">Variable</Label>
+          <Select value={metric} onValueChange={setMetric}>
+            <SelectTrigger id="threshold-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(metricLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="threshold-comparator">Condition</Label>
+          <Select value={comparator} onValueChange={(value) => setComparator(value as ThresholdQuery["comparator"])}>
+            <SelectTrigger id="threshold-comparator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(comparatorLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="threshold-value">Threshold ({units[metric]})</Label>
+          <Input
+            id="threshold-value"
+            type="number"
+            step="any"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addQuery()}
+          />
+        </div>
+        <Button onClick={addQuery} disabled={disabled || threshold === ""} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Condition</TableHead>
+              <TableHead className="text-right">Probability</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map((result, idx) => (
+              <TableRow key={`${result.metric}-${result.comparator}-${result.threshold}-${idx}`}>
+                <TableCell className="font-medium">
+                  {metricLabels[result.metric] || result.metric} {comparatorLabels[result.comparator]}{" "}
+                  {result.threshold} {units[result.metric]}
+                </TableCell>
+                <TableCell className="text-right font-semibold">
+                  {result.probability_percent.toFixed(1)}%
+                </TableCell>
+                <TableCell>
+                  {isCustom(result) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeQuery(result)}
+                      disabled={disabled}
+                      aria-label="Remove threshold"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { unitLabel, UnitSystem } from "@shared/units.ts";
+import { ClimateTrend, TrendEstimate } from "@/pages/api/outlook";
+
+type TrendSeries = "t_max_mean" | "precip_total" | "hot_days";
+
+interface TrendSectionProps {
+  trend: ClimateTrend;
+  units: UnitSystem;
+  windowDays: number;
+}
+
+// The yearly values of one series with its Theil–Sen line drawn over the
+// years the estimate covers
+function chartRows(trend: ClimateTrend, series: TrendSeries) {
+  const estimate: TrendEstimate = trend[series];
+  const fitted = (year: number) => {
+    if (estimate.slope_per_decade === null || year < estimate.start_year || year > estimate.end_year) return null;
+    const span = estimate.end_year - estimate.start_year;
+    const share = span === 0 ? 0 : (year - estimate.start_year) / span;
+    return Math.round((estimate.fitted_start + (estimate.fitted_end - estimate.fitted_start) * share) * 100) / 100;
+  };
+  return trend.years.map((row) => ({ year: row.year, value: row[series], fitted: fitted(row.year) }));
+}
+
+// Whether the window of the requested date is getting warmer, wetter or
+// hotter across the archive, one series at a time
+export function TrendSection({ trend, units, windowDays }: TrendSectionProps) {
+  const [series, setSeries] = useState<TrendSeries>("t_max_mean");
+
+  const tempUnit = unitLabel("temperature", units);
+  const precipUnit = unitLabel("precipitation", units);
+  const seriesInfo: Record<TrendSeries, { label: string; unit: string; digits: number; color: string }> = {
+    t_max_mean: { label: "Average high", unit: tempUnit, digits: 1, color: "#ef4444" },
+    precip_total: { label: "Total precipitation", unit: ` ${precipUnit}`, digits: units === "imperial" ? 2 : 1, color: "#0ea5e9" },
+    hot_days: { label: `Days ≥ ${trend.hot_day_threshold}${tempUnit}`, unit: " days", digits: 0, color: "#f97316" },
+  };
+  const info = seriesInfo[series];
+  const estimate = trend[series];
+
+  const describe = () => {
+    if (estimate.slope_per_decade === null) {
+      return `Only ${estimate.years_n} complete years are archived; a trend needs more history.`;
+    }
+    const sign = estimate.slope_per_decade > 0 ? "+" : "";
+    const change = `${sign}${estimate.slope_per_decade.toFixed(info.digits === 0 ? 1 : info.digits)}${info.unit} per decade`;
+    const strength = estimate.significant
+      ? `a statistically significant trend (p = ${estimate.p_value.toFixed(3)})`
+      : `not statistically significant (p = ${estimate.p_value.toFixed(2)}); year-to-year variation dominates`;
+    return `${change} over ${estimate.start_year}–${estimate.end_year}: ${strength}.`;
+  };
+
+  const rising = estimate.slope_per_decade !== null && estimate.slope_per_decade > 0;
+
+  return (
+    <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl overflow-hidden">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-xl font-bold">Trend</h3>
+          <ToggleGroup
+            type="single"
+            value={series}
+            onValueChange={(value) => value && setSeries(value as TrendSeries)}
+            className="justify-start flex-wrap"
+          >
+            <ToggleGroupItem value="t_max_mean">Average high</ToggleGroupItem>
+            <ToggleGroupItem value="precip_total">Precipitation</ToggleGroupItem>
+            <ToggleGroupItem value="hot_days">Hot days</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex items-start gap-2 text-sm">
+          {estimate.slope_per_decade !== null &&
+            (rising ? (
+              <TrendingUp className="h-4 w-4 mt-0.5 shrink-0" style={{ color: info.color }} />
+            ) : (
+              <TrendingDown className="h-4 w-4 mt-0.5 shrink-0" style={{ color: info.color }} />
+            ))}
+          <p className={estimate.significant ? "font-medium" : "text-muted-foreground"}>{describe()}</p>
+        </div>
+
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={chartRows(trend, series)}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+            <XAxis dataKey="year" fontSize={12} stroke="hsl(var(--muted-foreground))" />
+            <YAxis
+              fontSize={12}
+              stroke="hsl(var(--muted-foreground))"
+              label={{ value: info.unit.trim(), angle: -90, position: "insideLeft" }}
+            />
+            <Tooltip
+              formatter={(value: number, name: string) => [`${value.toFixed(info.digits)}${info.unit}`, name]}
+              contentStyle={{
+                backgroundColor: "rgba(255, 255, 255, 0.95)",
+                border: "1px solid rgba(0,0,0,0.1)",
+                borderRadius: "8px",
+              }}
+            />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke={info.color}
+              strokeWidth={2}
+              dot={{ fill: info.color, r: 3 }}
+              name={info.label}
+              connectNulls
+            />
+            <Line
+              type="linear"
+              dataKey="fitted"
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="6 4"
+              dot={false}
+              name="Theil–Sen trend"
+              connectNulls
+            />
+          </LineChart>
+        </ResponsiveContainer>
+
+        <p className="text-xs text-muted-foreground">
+          Each point is one year's {windowDays}-day window around the requested date. Trends use the Theil–Sen
+          estimator over years with a complete window, with significance from the Mann–Kendall test (p &lt; 0.05).
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
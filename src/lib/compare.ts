@@ -0,0 +1,69 @@
+// Rules for comparing outlooks of several locations on the same date
+
+export const MIN_COMPARE_LOCATIONS = 2;
+export const MAX_COMPARE_LOCATIONS = 6;
+
+export interface CompareLocation {
+  lat: number;
+  lon: number;
+}
+
+// Locations travel in the URL as repeated `loc=lat,lon` parameters
+export function parseCompareLocations(values: string[]): CompareLocation[] {
+  return values.map((value) => {
+    const [lat, lon] = value.split(",").map((part) => (part.trim() === "" ? NaN : Number(part)));
+    return { lat, lon: lon ?? NaN };
+  });
+}
+
+export function formatCompareLocation({ lat, lon }: CompareLocation): string {
+  return `${Number(lat.toFixed(4))},${Number(lon.toFixed(4))}`;
+}
+
+// Which value of a metric is better: the lower, the higher, or the one
+// closest to a comfortable target (in metric units)
+export interface MetricPreference {
+  better: "lower" | "higher" | "closer";
+  target?: number;
+}
+
+export const metricPreferences: Record<string, MetricPreference> = {
+  t_mean: { better: "closer", target: 21 },
+  t_max: { better: "closer", target: 24 },
+  t_min: { better: "closer", target: 15 },
+  rh_mean: { better: "closer", target: 50 },
+  dew_point: { better: "lower" },
+  heat_index_max: { better: "lower" },
+  wind_chill_min: { better: "higher" },
+  apparent_temp_max: { better: "closer", target: 24 },
+  wind10m: { better: "lower" },
+  precip_mm: { better: "lower" },
+};
+
+// Indexes of the best and worst of some metric values; null entries (a
+// location that failed) are skipped, and ties or fewer than two values mark nothing
+export function bestAndWorst(
+  values: (number | null)[],
+  preference: MetricPreference
+): { best: number | null; worst: number | null } {
+  const badness = (value: number) => {
+    if (preference.better === "lower") return value;
+    if (preference.better === "higher") return -value;
+    return Math.abs(value - (preference.target ?? 0));
+  };
+
+  const scored = values
+    .map((value, index) => ({ index, score: value === null || !Number.isFinite(value) ? null : badness(value) }))
+    .filter((entry) => entry.score !== null);
+  if (scored.length < 2) return { best: null, worst: null };
+
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (first.score === last.score) return { best: null, worst: null };
+
+  return {
+    best: sorted.filter((entry) => entry.score === first.score).length === 1 ? first.index : null,
+    worst: sorted.filter((entry) => entry.score === last.score).length === 1 ? last.index : null,
+  };
+}
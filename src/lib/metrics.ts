@@ -0,0 +1,13 @@
+// Display names of the sampled metrics the outlook API reports
+export const metricLabels: Record<string, string> = {
+  t_mean: "Mean Temperature",
+  t_max: "Max Temperature",
+  t_min: "Min Temperature",
+  rh_mean: "Mean Humidity",
+  dew_point: "Dew Point",
+  heat_index_max: "Max Heat Index",
+  wind_chill_min: "Min Wind Chill",
+  apparent_temp_max: "Max Apparent Temperature",
+  wind10m: "Wind Speed (10m)",
+  precip_mm: "Precipitation",
+};
@@ -81,23 +81,24 @@ const About = () => {
             <div>
               <h3 className="font-semibold mb-2">3. Risk Classification</h3>
               <p className="text-sm text-muted-foreground">
-                We apply predefined rules to classify risk levels:
+                Each rule is checked against every sampled day, and its probability is the share of days that meet
+                it. The default rule set uses fixed thresholds:
               </p>
               <ul className="text-sm text-muted-foreground list-disc list-inside ml-4">
                 <li>
-                  <strong>Very Hot:</strong> Based on Heat Index (NWS formula)
+                  <strong>Very Hot:</strong> Heat Index (NWS formula) of 40 °C or more
                 </li>
                 <li>
-                  <strong>Very Cold:</strong> Based on Wind Chill (optional)
+                  <strong>Very Cold:</strong> Wind Chill of −10 °C or less
                 </li>
                 <li>
-                  <strong>Very Windy:</strong> Based on wind speed percentiles
+                  <strong>Very Windy:</strong> Daily mean wind speed of 30 km/h or more
                 </li>
                 <li>
-                  <strong>Very Wet:</strong> Based on precipitation thresholds
+                  <strong>Very Wet:</strong> 10 mm or more of precipitation in the day
                 </li>
                 <li>
-                  <strong>Very Uncomfortable:</strong> Combined heat index and dew point
+                  <strong>Very Uncomfortable:</strong> Heat Index of 32 °C or more, or a dew point of 21 °C or more
                 </li>
               </ul>
             </div>
@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarIcon, CalendarSearch, Loader2, Plus, X } from "lucide-react";
+import { LocationPicker } from "@/components/LocationPicker";
+import { CalendarHeatmap, HeatmapBand } from "@/components/CalendarHeatmap";
+import { useToast } from "@/hooks/use-toast";
+import { DateRange } from "react-day-picker";
+import { addDays, format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { metricLabels } from "@/lib/metrics";
+import { convertThreshold, METRIC_QUANTITIES, unitLabel, UnitSystem } from "@shared/units.ts";
+import {
+  BestDateCriterion,
+  BestDatesResponse,
+  DEFAULT_BEST_DATES_LIMIT,
+  defaultCriteria,
+  describeOutlookError,
+  fetchBestDates,
+  invalidParams,
+  MAX_SEASON_DAYS,
+  validateBestDatesRequest,
+} from "@/pages/api/outlook";
+
+const criterionNames: Record<string, string> = {
+  dry: "Dry",
+  comfortable: "Comfortable",
+  calm: "Calm",
+};
+
+const scoreBands: HeatmapBand[] = [
+  { min: 80, className: "bg-green-600", label: "80+" },
+  { min: 60, className: "bg-green-400", label: "60–80" },
+  { min: 40, className: "bg-yellow-300", label: "40–60" },
+  { min: 20, className: "bg-orange-400", label: "20–40" },
+  { min: 0, className: "bg-red-400", label: "<20" },
+];
+
+// May to September of the next summer that has not started yet
+function defaultPeriod(): DateRange {
+  const today = new Date();
+  const year = today.getMonth() >= 4 ? today.getFullYear() + 1 : today.getFullYear();
+  return { from: new Date(year, 4, 1), to: new Date(year, 8, 30) };
+}
+
+const BestDates = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const [period, setPeriod] = useState<DateRange | undefined>(defaultPeriod);
+  const [units, setUnits] = useState<UnitSystem>("metric");
+  const [criteria, setCriteria] = useState<BestDateCriterion[]>(() => defaultCriteria("metric"));
+  const [newMetric, setNewMetric] = useState("t_mean");
+  const [result, setResult] = useState<BestDatesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [retryStatus, setRetryStatus] = useState("");
+
+  const unitFor = (metric: string) => unitLabel(METRIC_QUANTITIES[metric] ?? "percent", units);
+  const criterionName = (criterion: BestDateCriterion) =>
+    criterionNames[criterion.id ?? ""] ?? metricLabels[criterion.metric] ?? criterion.metric;
+
+  // Keep the bounds the user entered meaning the same when switching units
+  const changeUnits = (next: UnitSystem) => {
+    const convert = (metric: string, value?: number) =>
+      value === undefined ? undefined : convertThreshold(metric, value, units, next);
+    setCriteria(criteria.map((c) => ({ ...c, min: convert(c.metric, c.min), max: convert(c.metric, c.max) })));
+    setUnits(next);
+  };
+
+  const updateCriterion = (index: number, patch: Partial<BestDateCriterion>) => {
+    setCriteria(criteria.map((c, idx) => (idx === index ? { ...c, ...patch } : c)));
+  };
+
+  const parseBound = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+  const addCriterion = () => {
+    const id = `${newMetric}-${Date.now()}`;
+    setCriteria([...criteria, { id, metric: newMetric, min: 0, weight: 1 }]);
+  };
+
+  const openOutlook = (date: string) => {
+    if (!result) return;
+    const { latitude, longitude, window_days } = result.metadata;
+    navigate(`/results?lat=${latitude}&lon=${longitude}&date=${date}&window=${window_days}&units=${units}`);
+  };
+
+  const search = async () => {
+    const request = {
+      lat: location?.lat,
+      lon: location?.lon,
+      start_date: period?.from ? format(period.from, "yyyy-MM-dd") : undefined,
+      end_date: period?.from ? format(period.to ?? period.from, "yyyy-MM-dd") : undefined,
+      criteria,
+      units,
+      limit: DEFAULT_BEST_DATES_LIMIT,
+    };
+
+    const fieldErrors = validateBestDatesRequest(request);
+    if (fieldErrors.length > 0) {
+      toast({
+        title: "Check your search",
+        description: describeOutlookError(invalidParams(fieldErrors)),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    setRetryStatus("");
+    try {
+      setResult(
+        await fetchBestDates(request, {
+          onRetry: ({ attempt, delayMs, error }) => {
+            setRetryStatus(`${describeOutlookError(error)} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})…`);
+          },
+        })
+      );
+    } catch (error) {
+      console.error("Best dates error:", error);
+      toast({
+        title: "Could not rank dates",
+        description: describeOutlookError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setRetryStatus("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[hsl(200_100%_88%)] via-[hsl(190_95%_85%)] to-[hsl(45_100%_88%)]">
+      {/* Header */}
+      <header className="w-full py-4 px-6 border-b border-white/20 bg-white/30 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarSearch className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Best Date Finder
+            </h1>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")}>
+            Back to Climate
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Search Card */}
+          <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl space-y-5 h-fit">
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <LocationPicker value={location || undefined} onChange={setLocation} searchEnabled={true} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Search Period</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn("w-full justify-start text-left font-normal", !period?.from && "text-muted-foreground")}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {period?.from ? (
+                      <>
+                        {format(period.from, "PP")}
+                        {period.to && ` – ${format(period.to, "PP")}`}
+                      </>
+                    ) : (
+                      <span>Pick a period</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={period}
+                    onSelect={setPeriod}
+                    max={MAX_SEASON_DAYS}
+                    numberOfMonths={2}
+                    defaultMonth={period?.from}
+                    toDate={addDays(new Date(), 2 * 365)}
+                    initialFocus
+                    className={cn("p-3 pointer-events-auto")}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Units</Label>
+              <ToggleGroup
+                type="single"
+                value={units}
+                onValueChange={(value) => value && changeUnits(value as UnitSystem)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="metric" aria-label="Metric units">°C · mm · km/h</ToggleGroupItem>
+                <ToggleGroupItem value="imperial" aria-label="Imperial units">°F · in · mph</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Criteria</Label>
+              {criteria.map((criterion, index) => (
+                <div key={criterion.id ?? index} className="p-3 bg-white/50 rounded-lg border border-white/60 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">
+                      {criterionName(criterion)}
+                      <span className="text-muted-foreground font-normal"> · {metricLabels[criterion.metric]}</span>
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setCriteria(criteria.filter((_, idx) => idx !== index))}
+                      aria-label="Remove criterion"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      placeholder="min"
+                      value={criterion.min ?? ""}
+                      onChange={(e) => updateCriterion(index, { min: parseBound(e.target.value) })}
+                      className="h-8"
+                    />
+                    <span className="text-muted-foreground text-sm">to</span>
+                    <Input
+                      type="number"
+                      placeholder="max"
+                      value={criterion.max ?? ""}
+                      onChange={(e) => updateCriterion(index, { max: parseBound(e.target.value) })}
+                      className="h-8"
+                    />
+                    <span className="text-xs text-muted-foreground w-10">{unitFor(criterion.metric)}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-muted-foreground w-20">Weight {criterion.weight ?? 1}</span>
+                    <Slider
+                      value={[criterion.weight ?? 1]}
+                      onValueChange={([weight]) => updateCriterion(index, { weight })}
+                      min={1}
+                      max={5}
+                      step={1}
+                    />
+                  </div>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Select value={newMetric} onValueChange={setNewMetric}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(metricLabels).map(([metric, label]) => (
+                      <SelectItem key={metric} value={metric}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={addCriterion}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            <Button onClick={search} className="w-full" size="lg" disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarSearch className="h-4 w-4 mr-2" />}
+              Find Best Dates
+            </Button>
+            {retryStatus && <p className="text-xs text-muted-foreground">{retryStatus}</p>}
+          </Card>
+
+          {/* Results */}
+          <div className="lg:col-span-2 space-y-6">
+            {!result ? (
+              <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl">
+                <div className="text-center py-12 text-muted-foreground">
+                  <CalendarSearch className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                  <p>Pick a location, a search period and what makes a good day</p>
+                  <p className="text-sm mt-1">Every date is scored from decades of weather on and around it</p>
+                </div>
+              </Card>
+            ) : (
+              <>
+                <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl">
+                  <h2 className="text-xl font-semibold mb-1">Top Dates</h2>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Score is the weighted share of past days meeting each criterion; "All met" is the share meeting
+                    every one at once.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Score</TableHead>
+                        <TableHead className="text-right">All met</TableHead>
+                        {result.criteria.map((criterion) => (
+                          <TableHead key={criterion.id} className="text-right">
+                            {criterionName(criterion)}
+                          </TableHead>
+                        ))}
+                        <TableHead>Risks</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.ranked.map((day, index) => (
+                        <TableRow key={day.date}>
+                          <TableCell className="font-semibold">{index + 1}</TableCell>
+                          <TableCell>{format(parseISO(day.date), "EEE, MMM d yyyy")}</TableCell>
+                          <TableCell className="text-right font-semibold">{day.score.toFixed(0)}</TableCell>
+                          <TableCell className="text-right">{day.all_met_percent.toFixed(0)}%</TableCell>
+                          {day.criteria.map((c) => (
+                            <TableCell key={c.id} className="text-right">
+                              {c.probability_percent.toFixed(0)}%
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {day.risks.map((risk) => (
+                                <Badge
+                                  key={risk.risk_type}
+                                  variant={risk.level === "high" ? "destructive" : "secondary"}
+                                  title={risk.rule_applied}
+                                >
+                                  {risk.label ?? risk.risk_type.replace(/_/g, " ")}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => openOutlook(day.date)}>
+                              Outlook
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+
+                <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl">
+                  <h2 className="text-xl font-semibold mb-4">Score Calendar</h2>
+                  <CalendarHeatmap
+                    days={result.days.map((day) => ({
+                      date: day.date,
+                      value: day.samples_n > 0 ? day.score : null,
+                      title: `${format(parseISO(day.date), "MMM d")}: ${day.samples_n > 0 ? `score ${day.score}` : "no data"}`,
+                    }))}
+                    bands={scoreBands}
+                    legendTitle="Score"
+                    highlighted={result.ranked.map((day) => day.date)}
+                    onSelect={openOutlook}
+                  />
+                </Card>
+
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>
+                    Based on {result.metadata.years_used} years ({result.metadata.period}) of{" "}
+                    {result.metadata.data_sources.map((s) => s.name).join(", ")}, ±
+                    {Math.floor(result.metadata.window_days / 2)} days around each date. {result.metadata.disclaimer}
+                  </p>
+                  {result.metadata.warnings.map((warning) => (
+                    <p key={warning}>{warning}</p>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default BestDates;
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarDays, Loader2 } from "lucide-react";
+import { LocationPicker } from "@/components/LocationPicker";
+import { CalendarHeatmap, HeatmapBand } from "@/components/CalendarHeatmap";
+import { addDays, addMonths, format, startOfMonth } from "date-fns";
+import { fromMetric, roundFor, unitLabel, UnitSystem } from "@shared/units.ts";
+import {
+  CalendarDay,
+  CalendarResponse,
+  describeOutlookError,
+  fetchClimateCalendar,
+  invalidParams,
+  validateCalendarRequest,
+} from "@/pages/api/outlook";
+
+type Layer = "t_max" | "rain" | "risk";
+
+const RISK_VALUES: Record<CalendarDay["risk_level"], number> = { low: 0, medium: 1, high: 2 };
+
+const rainBands: HeatmapBand[] = [
+  { min: 60, className: "bg-blue-700", label: "60%+" },
+  { min: 40, className: "bg-blue-500", label: "40–60%" },
+  { min: 25, className: "bg-blue-300", label: "25–40%" },
+  { min: 10, className: "bg-sky-200", label: "10–25%" },
+  { min: 0, className: "bg-sky-50", label: "<10%" },
+];
+
+const riskBands: HeatmapBand[] = [
+  { min: 2, className: "bg-red-500", label: "High" },
+  { min: 1, className: "bg-amber-400", label: "Medium" },
+  { min: 0, className: "bg-green-300", label: "Low" },
+];
+
+// Bands are in °C, the unit the calendar is fetched in; only labels follow the toggle
+const TEMP_BAND_STEPS = [
+  { min: 30, className: "bg-red-500" },
+  { min: 25, className: "bg-orange-400" },
+  { min: 20, className: "bg-yellow-300" },
+  { min: 10, className: "bg-green-300" },
+  { min: 0, className: "bg-sky-300" },
+  { min: -Infinity, className: "bg-blue-500" },
+];
+
+function tempBands(units: UnitSystem): HeatmapBand[] {
+  const shown = (c: number) => `${roundFor(fromMetric(c, "temperature", units), "temperature", units)}${unitLabel("temperature", units)}`;
+  return TEMP_BAND_STEPS.map((band, idx) => ({
+    ...band,
+    label: idx === 0
+      ? `${shown(band.min)}+`
+      : Number.isFinite(band.min)
+        ? `${shown(band.min)}–${shown(TEMP_BAND_STEPS[idx - 1].min)}`
+        : `<${shown(TEMP_BAND_STEPS[idx - 1].min)}`,
+  }));
+}
+
+const ClimateCalendar = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const lat = parseFloat(searchParams.get("lat") ?? "");
+  const lon = parseFloat(searchParams.get("lon") ?? "");
+  const hasLocation = !isNaN(lat) && !isNaN(lon);
+
+  const [data, setData] = useState<CalendarResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [retryStatus, setRetryStatus] = useState("");
+  const [layer, setLayer] = useState<Layer>("t_max");
+  const [displayUnits, setDisplayUnits] = useState<UnitSystem>("metric");
+
+  useEffect(() => {
+    if (!hasLocation) return;
+
+    const fieldErrors = validateCalendarRequest({ lat, lon });
+    if (fieldErrors.length > 0) {
+      setError(describeOutlookError(invalidParams(fieldErrors)));
+      return;
+    }
+
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const calendar = await fetchClimateCalendar(
+          { lat, lon, units: "metric" },
+          {
+            signal: controller.signal,
+            onRetry: ({ attempt, delayMs, error }) => {
+              setRetryStatus(`${describeOutlookError(error)} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})…`);
+            },
+          }
+        );
+        if (!controller.signal.aborted) setData(calendar);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Climate calendar error:", err);
+        setError(describeOutlookError(err));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setRetryStatus("");
+        }
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [lat, lon, hasLocation]);
+
+  const changeLocation = (location: { lat: number; lon: number } | null) => {
+    if (location) setSearchParams({ lat: location.lat.toFixed(4), lon: location.lon.toFixed(4) });
+  };
+
+  // The twelve months from the start of this one; Feb 29 shows Feb 28's climatology
+  const firstDay = startOfMonth(new Date());
+  const dates = Array.from({ length: 366 }, (_, idx) => addDays(firstDay, idx)).filter(
+    (date) => date < addMonths(firstDay, 12)
+  );
+  const byDate = new Map((data?.days ?? []).map((day) => [day.date, day]));
+
+  const tempUnit = unitLabel("temperature", displayUnits);
+  const shownTemp = (c: number) => roundFor(fromMetric(c, "temperature", displayUnits), "temperature", displayUnits);
+
+  const describeDay = (date: Date, day?: CalendarDay) => {
+    const label = format(date, "MMM d");
+    if (!day || day.samples_n === 0) return `${label}: no data`;
+    const high = day.t_max_p50 === null ? "n/a" : `${shownTemp(day.t_max_p50)}${tempUnit}`;
+    const risk = day.top_risk ? `${day.risk_level} (${day.top_risk.replace(/_/g, " ")})` : "low";
+    return `${label}: typical high ${high}, ${day.rain_probability}% chance of rain, risk ${risk}`;
+  };
+
+  const heatmapDays = dates.map((date) => {
+    const day = byDate.get(format(date, "MM-dd") === "02-29" ? "02-28" : format(date, "MM-dd"));
+    const sampled = day && day.samples_n > 0;
+    const value = !sampled
+      ? null
+      : layer === "t_max"
+        ? day.t_max_p50
+        : layer === "rain"
+          ? day.rain_probability
+          : RISK_VALUES[day.risk_level];
+    return { date: format(date, "yyyy-MM-dd"), value, title: describeDay(date, day) };
+  });
+
+  const bands = layer === "t_max" ? tempBands(displayUnits) : layer === "rain" ? rainBands : riskBands;
+  const legendTitle = layer === "t_max" ? "Typical high" : layer === "rain" ? "Chance of rain" : "Risk level";
+
+  const openOutlook = (date: string) => {
+    navigate(`/results?lat=${lat}&lon=${lon}&date=${date}&window=${data?.metadata.window_days ?? 15}&units=${displayUnits}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[hsl(200_100%_88%)] via-[hsl(190_95%_85%)] to-[hsl(45_100%_88%)]">
+      {/* Header */}
+      <header className="w-full py-4 px-6 border-b border-white/20 bg-white/30 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Climate Calendar
+            </h1>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")}>
+            Back to Climate
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl space-y-5 h-fit">
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <LocationPicker
+                value={hasLocation ? { lat, lon } : undefined}
+                onChange={changeLocation}
+                searchEnabled={true}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Show</Label>
+              <ToggleGroup
+                type="single"
+                value={layer}
+                onValueChange={(value) => value && setLayer(value as Layer)}
+                className="justify-start flex-wrap"
+              >
+                <ToggleGroupItem value="t_max">Typical high</ToggleGroupItem>
+                <ToggleGroupItem value="rain">Rain chance</ToggleGroupItem>
+                <ToggleGroupItem value="risk">Risk level</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Units</Label>
+              <ToggleGroup
+                type="single"
+                value={displayUnits}
+                onValueChange={(value) => value && setDisplayUnits(value as UnitSystem)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="metric" aria-label="Metric units">°C</ToggleGroupItem>
+                <ToggleGroupItem value="imperial" aria-label="Imperial units">°F</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </Card>
+
+          <Card className="lg:col-span-2 p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl">
+            {!hasLocation ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <CalendarDays className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                <p>Pick a location to see its climate through the year</p>
+                <p className="text-sm mt-1">Click any day to open its full outlook</p>
+              </div>
+            ) : loading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Loader2 className="h-8 w-8 mx-auto mb-3 animate-spin" />
+                <p>Building the calendar from decades of daily weather…</p>
+                {retryStatus && <p className="text-sm mt-2">{retryStatus}</p>}
+              </div>
+            ) : error ? (
+              <div className="text-center py-12">
+                <p className="text-destructive">{error}</p>
+              </div>
+            ) : data ? (
+              <div className="space-y-4">
+                <CalendarHeatmap days={heatmapDays} bands={bands} legendTitle={legendTitle} onSelect={openOutlook} />
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>
+                    Each day pools ±{Math.floor(data.metadata.window_days / 2)} days around it from{" "}
+                    {data.metadata.years_used} years ({data.metadata.period}) of{" "}
+                    {data.metadata.data_sources.map((s) => s.name).join(", ")}. Risk levels follow the{" "}
+                    {data.metadata.rule_set.name} rule set. {data.metadata.disclaimer}
+                  </p>
+                  {data.metadata.warnings.map((warning) => (
+                    <p key={warning}>{warning}</p>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ClimateCalendar;
@@ -0,0 +1,419 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarIcon, Columns3, Link2, Loader2, Plus, Trash2 } from "lucide-react";
+import { LocationPicker } from "@/components/LocationPicker";
+import { CompareColumn, CompareTable } from "@/components/CompareTable";
+import { RiskCards } from "@/components/RiskCards";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  CompareLocation,
+  formatCompareLocation,
+  MAX_COMPARE_LOCATIONS,
+  MIN_COMPARE_LOCATIONS,
+  parseCompareLocations,
+} from "@/lib/compare";
+import { convertOutlook } from "@shared/convert.ts";
+import { unitLabel, UnitSystem } from "@shared/units.ts";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  describeOutlookError,
+  fetchOutlookBatch,
+  invalidParams,
+  OutlookBatchResult,
+  validateOutlookRequest,
+} from "@/pages/api/outlook";
+
+const LOCATION_COLORS = ["#ef4444", "#3b82f6", "#22c55e", "#f59e0b", "#a855f7", "#14b8a6"];
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const Compare = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The comparison lives in the URL (?date=…&loc=lat,lon&loc=lat,lon) so it can be shared
+  const locKey = searchParams.getAll("loc").join("|");
+  const locations = useMemo(() => parseCompareLocations(locKey ? locKey.split("|") : []), [locKey]);
+  const date = searchParams.get("date") || undefined;
+  const windowDays = Number(searchParams.get("window")) || 15;
+  const units = searchParams.get("units") === "imperial" ? "imperial" : "metric";
+
+  const [draftLocations, setDraftLocations] = useState<CompareLocation[]>(locations);
+  const [draftDate, setDraftDate] = useState<Date | undefined>(date ? parseISO(date) : undefined);
+  const [pickerLocation, setPickerLocation] = useState<CompareLocation | null>(null);
+
+  const [results, setResults] = useState<Record<string, OutlookBatchResult> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [retryStatus, setRetryStatus] = useState("");
+  const [names, setNames] = useState<string[]>([]);
+  const [displayUnits, setDisplayUnits] = useState<UnitSystem>(units);
+
+  useEffect(() => {
+    if (locations.length === 0 && !date) return;
+
+    const fieldErrors = locations.flatMap((loc, index) =>
+      validateOutlookRequest({ lat: loc.lat, lon: loc.lon, date, window: windowDays, units }).map((fieldError) =>
+        fieldError.field === "lat" || fieldError.field === "lon"
+          ? { ...fieldError, message: `Location ${letter(index)}: ${fieldError.message}` }
+          : fieldError
+      )
+    );
+    if (locations.length < MIN_COMPARE_LOCATIONS || locations.length > MAX_COMPARE_LOCATIONS) {
+      fieldErrors.push({
+        field: "loc",
+        message: `Compare between ${MIN_COMPARE_LOCATIONS} and ${MAX_COMPARE_LOCATIONS} locations.`,
+      });
+    }
+    // One message per field is enough when every location shares the date
+    const unique = fieldErrors.filter((e, idx) => fieldErrors.findIndex((other) => other.message === e.message) === idx);
+    if (unique.length > 0) {
+      setError(describeOutlookError(invalidParams(unique)));
+      setResults(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const loadComparison = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const batch = await fetchOutlookBatch(
+          {
+            items: locations.map((loc, index) => ({ id: `loc-${index}`, lat: loc.lat, lon: loc.lon, date, window: windowDays })),
+            units: "metric",
+          },
+          {
+            signal: controller.signal,
+            onRetry: ({ attempt, delayMs, error }) => {
+              setRetryStatus(`${describeOutlookError(error)} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})…`);
+            },
+          }
+        );
+        if (!controller.signal.aborted) setResults(batch);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Comparison error:", err);
+        setError(describeOutlookError(err));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setRetryStatus("");
+        }
+      }
+    };
+
+    loadComparison();
+    return () => controller.abort();
+  }, [locations, date, windowDays, units]);
+
+  useEffect(() => {
+    const fetchName = async ({ lat, lon }: CompareLocation, index: number) => {
+      try {
+        const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}`);
+        const data = await response.json();
+        return data.address?.city || data.address?.town || data.address?.village || data.address?.county || data.address?.state || `Location ${letter(index)}`;
+      } catch (err) {
+        console.error("Error fetching location name:", err);
+        return `Location ${letter(index)}`;
+      }
+    };
+
+    Promise.all(locations.map(fetchName)).then(setNames);
+  }, [locations]);
+
+  const addLocation = () => {
+    if (!pickerLocation) return;
+    if (draftLocations.length >= MAX_COMPARE_LOCATIONS) {
+      toast({
+        title: "Too many locations",
+        description: `You can compare up to ${MAX_COMPARE_LOCATIONS} locations.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setDraftLocations([...draftLocations, pickerLocation]);
+    setPickerLocation(null);
+  };
+
+  const compare = () => {
+    if (draftLocations.length < MIN_COMPARE_LOCATIONS || !draftDate) {
+      toast({
+        title: "Missing information",
+        description: `Add at least ${MIN_COMPARE_LOCATIONS} locations and pick a date.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const params = new URLSearchParams({ date: format(draftDate, "yyyy-MM-dd"), window: String(windowDays), units: displayUnits });
+    draftLocations.forEach((loc) => params.append("loc", formatCompareLocation(loc)));
+    setSearchParams(params);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast({ title: "Link copied", description: "Anyone with the link sees this comparison." });
+  };
+
+  const columns: CompareColumn[] = locations.map((loc, index) => {
+    const result = results?.[`loc-${index}`];
+    const metric = result?.ok ? result.data : null;
+    return {
+      label: names[index] || `Location ${letter(index)}`,
+      color: LOCATION_COLORS[index % LOCATION_COLORS.length],
+      metric,
+      view: metric && convertOutlook(metric, displayUnits),
+      error: result && !result.ok ? describeOutlookError({ error: result.error }) : undefined,
+    };
+  });
+
+  // One row per day of the window with every location's value side by side
+  const overlay = (pick: (day: { tempMax: number; precipitation: number }) => number) => {
+    const dates = columns.find((c) => c.view)?.view.dailyBreakdown.map((d) => d.date) ?? [];
+    return dates.map((day) => ({
+      date: day,
+      ...Object.fromEntries(
+        columns.map((c, index) => {
+          const entry = c.view?.dailyBreakdown.find((d) => d.date === day);
+          return [`loc${index}`, entry ? pick(entry) : null];
+        })
+      ),
+    }));
+  };
+
+  const charts = [
+    { title: "Daily Max Temperature", unit: unitLabel("temperature", displayUnits), data: overlay((d) => d.tempMax) },
+    { title: "Daily Precipitation", unit: unitLabel("precipitation", displayUnits), data: overlay((d) => d.precipitation) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[hsl(200_100%_88%)] via-[hsl(190_95%_85%)] to-[hsl(45_100%_88%)]">
+      {/* Header */}
+      <header className="w-full py-4 px-6 border-b border-white/20 bg-white/30 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Columns3 className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Compare Locations
+            </h1>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")}>
+            Back to Climate
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {/* Builder */}
+          <Card className="p-6 shadow-xl border-white/40 bg-white/40 backdrop-blur-md rounded-2xl">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Add a Location</Label>
+                <LocationPicker value={pickerLocation || undefined} onChange={setPickerLocation} searchEnabled={true} />
+                <Button onClick={addLocation} variant="outline" className="w-full" disabled={!pickerLocation}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Location ({draftLocations.length}/{MAX_COMPARE_LOCATIONS})
+                </Button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Locations</Label>
+                  {draftLocations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add {MIN_COMPARE_LOCATIONS} to {MAX_COMPARE_LOCATIONS} locations to compare.</p>
+                  ) : (
+                    draftLocations.map((loc, index) => (
+                      <div
+                        key={`${formatCompareLocation(loc)}-${index}`}
+                        className="flex items-center justify-between p-2 bg-white/50 rounded-lg border border-white/60"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div
+                            className="flex items-center justify-center w-7 h-7 rounded-full text-white font-semibold text-sm"
+                            style={{ backgroundColor: LOCATION_COLORS[index % LOCATION_COLORS.length] }}
+                          >
+                            {letter(index)}
+                          </div>
+                          <p className="text-sm">{loc.lat.toFixed(4)}, {loc.lon.toFixed(4)}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDraftLocations(draftLocations.filter((_, idx) => idx !== index))}
+                          className="text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn("w-full justify-start text-left font-normal", !draftDate && "text-muted-foreground")}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {draftDate ? format(draftDate, "PPP") : <span>Pick a date</span>}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={draftDate}
+                        onSelect={setDraftDate}
+                        initialFocus
+                        className={cn("p-3 pointer-events-auto")}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button onClick={compare} className="flex-1">
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    Compare
+                  </Button>
+                  {locations.length > 0 && (
+                    <Button variant="outline" onClick={copyLink}>
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Copy Link
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </Card>
+
+          {loading && (
+            <div className="text-center py-12 text-muted-foreground">
+              <Loader2 className="h-8 w-8 mx-auto mb-3 animate-spin" />
+              <p>Comparing {locations.length} locations…</p>
+              {retryStatus && <p className="text-sm mt-2">{retryStatus}</p>}
+            </div>
+          )}
+
+          {!loading && error && (
+            <Card className="p-6 text-center">
+              <p className="text-destructive">{error}</p>
+            </Card>
+          )}
+
+          {!loading && !error && results && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold">
+                  {date && format(parseISO(date), "EEEE, MMMM d")} · ±{Math.floor(windowDays / 2)} days
+                </h2>
+                <ToggleGroup
+                  type="single"
+                  value={displayUnits}
+                  onValueChange={(value) => value && setDisplayUnits(value as UnitSystem)}
+                  className="bg-white/70 backdrop-blur-sm rounded-xl border-2 border-white/50 p-1 shadow-md"
+                  aria-label="Units"
+                >
+                  <ToggleGroupItem value="metric" aria-label="Metric units">°C · mm · km/h</ToggleGroupItem>
+                  <ToggleGroupItem value="imperial" aria-label="Imperial units">°F · in · mph</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              <CompareTable columns={columns} />
+
+              {/* Daily charts with one line per location */}
+              <section className="grid md:grid-cols-2 gap-6">
+                {charts.map((chart) => (
+                  <Card key={chart.title} className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl overflow-hidden">
+                    <CardContent className="pt-6">
+                      <h3 className="text-xl font-bold mb-4">{chart.title}</h3>
+                      <ResponsiveContainer width="100%" height={250}>
+                        <LineChart data={chart.data}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                          <XAxis
+                            dataKey="date"
+                            tickFormatter={(value) => new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                            fontSize={12}
+                            stroke="hsl(var(--muted-foreground))"
+                          />
+                          <YAxis
+                            fontSize={12}
+                            stroke="hsl(var(--muted-foreground))"
+                            label={{ value: chart.unit, angle: -90, position: "insideLeft" }}
+                          />
+                          <Tooltip
+                            labelFormatter={(value) => new Date(value).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                            formatter={(value: number, name: string) => [`${value.toFixed(1)} ${chart.unit}`, name]}
+                            contentStyle={{
+                              backgroundColor: "rgba(255, 255, 255, 0.95)",
+                              border: "1px solid rgba(0,0,0,0.1)",
+                              borderRadius: "8px",
+                            }}
+                          />
+                          <Legend />
+                          {columns.map((column, index) =>
+                            column.view ? (
+                              <Line
+                                key={index}
+                                type="monotone"
+                                dataKey={`loc${index}`}
+                                stroke={column.color}
+                                strokeWidth={2}
+                                name={column.label}
+                                dot={false}
+                                connectNulls
+                              />
+                            ) : null
+                          )}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
+
+              {/* Risks per location */}
+              {columns.map((column, index) =>
+                column.view ? (
+                  <section key={index} className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-xl font-bold flex items-center gap-2">
+                        <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: column.color }} />
+                        {column.label} Risks
+                      </h3>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          navigate(`/results?lat=${locations[index].lat}&lon=${locations[index].lon}&date=${date}&window=${windowDays}&units=${displayUnits}`)
+                        }
+                      >
+                        Full outlook
+                      </Button>
+                    </div>
+                    <RiskCards data={column.view.risk_labels} />
+                  </section>
+                ) : null
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Compare;
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Loader2, Search, ChevronDown, Cloud, Sun, CloudRain } from "lucide-react";
+import { Send, Loader2, Search, ChevronDown, Cloud, Sun, CloudRain, CalendarIcon } from "lucide-react";
 import { AnimatedCharacter } from "@/components/AnimatedCharacter";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -12,6 +12,12 @@ import { LocationPicker } from "@/components/LocationPicker";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DateRange } from "react-day-picker";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { MAX_SPAN_DAYS } from "@/pages/api/outlook";
 
 interface Message {
   role: "user" | "assistant";
@@ -41,57 +47,22 @@ const Index = () => {
   
   // Search state
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lon: number } | null>(null);
-  const [selectedDate, setSelectedDate] = useState<Date>();
-  const [selectedMonth, setSelectedMonth] = useState<string>("");
-  const [selectedDay, setSelectedDay] = useState<string>("");
-  const [selectedYear, setSelectedYear] = useState<string>("");
+  // A single day, or the first and last day of a multi-day event
+  const [selectedRange, setSelectedRange] = useState<DateRange>();
   const [windowDays, setWindowDays] = useState(15);
   const [units, setUnits] = useState("metric");
   
   // Calculate max date (1 year from today)
   const maxDate = new Date();
   maxDate.setFullYear(maxDate.getFullYear() + 1);
+  // Earliest selectable day
+  const startOfYear = new Date(new Date().getFullYear(), 0, 1);
 
-  // Generate years array (current year to next year)
-  const currentYear = new Date().getFullYear();
-  const years = [currentYear, currentYear + 1];
-  
-  // Months array
-  const months = [
-    { value: "0", label: "January" },
-    { value: "1", label: "February" },
-    { value: "2", label: "March" },
-    { value: "3", label: "April" },
-    { value: "4", label: "May" },
-    { value: "5", label: "June" },
-    { value: "6", label: "July" },
-    { value: "7", label: "August" },
-    { value: "8", label: "September" },
-    { value: "9", label: "October" },
-    { value: "10", label: "November" },
-    { value: "11", label: "December" },
-  ];
-
-  // Update selectedDate when individual selectors change
-  useEffect(() => {
-    if (selectedMonth && selectedDay && selectedYear) {
-      const date = new Date(parseInt(selectedYear), parseInt(selectedMonth), parseInt(selectedDay));
-      setSelectedDate(date);
-    }
-  }, [selectedMonth, selectedDay, selectedYear]);
-
-  // Get days in selected month
-  const getDaysInMonth = () => {
-    if (!selectedMonth || !selectedYear) return 31;
-    return new Date(parseInt(selectedYear), parseInt(selectedMonth) + 1, 0).getDate();
-  };
-
-  const performSearch = (location: { lat: number; lon: number }, date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const dateStr = `${year}-${month}-${day}`;
-    navigate(`/results?lat=${location.lat}&lon=${location.lon}&date=${dateStr}&window=${windowDays}&units=${units}`);
+  const performSearch = (location: { lat: number; lon: number }, range: DateRange) => {
+    const dates = range.to && range.to > range.from
+      ? `start_date=${format(range.from, "yyyy-MM-dd")}&end_date=${format(range.to, "yyyy-MM-dd")}`
+      : `date=${format(range.from, "yyyy-MM-dd")}`;
+    navigate(`/results?lat=${location.lat}&lon=${location.lon}&${dates}&window=${windowDays}&units=${units}`);
   };
 
   const sendMessage = async () => {
@@ -145,11 +116,7 @@ const Index = () => {
         
         // If we have a date, populate the manual search
         if (date) {
-          const dateObj = new Date(date);
-          setSelectedDate(dateObj);
-          setSelectedMonth(dateObj.getMonth().toString());
-          setSelectedDay(dateObj.getDate().toString());
-          setSelectedYear(dateObj.getFullYear().toString());
+          setSelectedRange({ from: new Date(date), to: undefined });
         }
         
         // Show a message that the search fields have been populated
@@ -193,8 +160,8 @@ const Index = () => {
 
 
   const handleQuickSearch = () => {
-    if (selectedLocation && selectedDate) {
-      performSearch(selectedLocation, selectedDate);
+    if (selectedLocation && selectedRange?.from) {
+      performSearch(selectedLocation, selectedRange);
     } else {
       toast({
         title: "Missing information",
@@ -243,6 +210,15 @@ const Index = () => {
             <Button variant="ghost" onClick={() => navigate("/travel")}>
               Travel Planner
             </Button>
+            <Button variant="ghost" onClick={() => navigate("/best-dates")}>
+              Best Dates
+            </Button>
+            <Button variant="ghost" onClick={() => navigate("/calendar")}>
+              Calendar
+            </Button>
+            <Button variant="ghost" onClick={() => navigate("/compare")}>
+              Compare
+            </Button>
             <Button variant="ghost" onClick={() => navigate("/about")}>
               About
             </Button>
@@ -349,54 +325,44 @@ const Index = () => {
                 onChange={setSelectedLocation}
                 searchEnabled={true}
               />
-              <div className="grid grid-cols-3 gap-2">
-                <div className="space-y-2">
-                  <Label htmlFor="month">Month</Label>
-                  <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-                    <SelectTrigger id="month">
-                      <SelectValue placeholder="Month" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {months.map((month) => (
-                        <SelectItem key={month.value} value={month.value}>
-                          {month.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="day">Day</Label>
-                  <Select value={selectedDay} onValueChange={setSelectedDay}>
-                    <SelectTrigger id="day">
-                      <SelectValue placeholder="Day" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {Array.from({ length: getDaysInMonth() }, (_, i) => i + 1).map((day) => (
-                        <SelectItem key={day} value={day.toString()}>
-                          {day}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="year">Year</Label>
-                  <Select value={selectedYear} onValueChange={setSelectedYear}>
-                    <SelectTrigger id="year">
-                      <SelectValue placeholder="Year" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {years.map((year) => (
-                        <SelectItem key={year} value={year.toString()}>
-                          {year}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+              <div className="space-y-2">
+                <Label>Date or Event Dates</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !selectedRange?.from && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {selectedRange?.from ? (
+                        selectedRange.to && selectedRange.to > selectedRange.from
+                          ? `${format(selectedRange.from, "PP")} – ${format(selectedRange.to, "PP")}`
+                          : format(selectedRange.from, "PPP")
+                      ) : (
+                        <span>Pick a day or a range</span>
+                      )}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="range"
+                      selected={selectedRange}
+                      onSelect={setSelectedRange}
+                      max={MAX_SPAN_DAYS}
+                      fromDate={startOfYear}
+                      toDate={maxDate}
+                      defaultMonth={selectedRange?.from}
+                      initialFocus
+                      className={cn("p-3 pointer-events-auto")}
+                    />
+                  </PopoverContent>
+                </Popover>
+                <p className="text-xs text-muted-foreground">
+                  Pick one day, or a first and last day (up to {MAX_SPAN_DAYS} days) for a multi-day event.
+                </p>
               </div>
               <p className="text-xs text-muted-foreground flex items-center gap-1">
                 <Cloud className="h-3 w-3" />
@@ -411,7 +377,7 @@ const Index = () => {
                 </Label>
                 <Slider
                   id="window"
-                  min={3}
+                  min={7}
                   max={30}
                   step={1}
                   value={[windowDays]}
@@ -440,7 +406,7 @@ const Index = () => {
                 </Select>
               </div>
               
-              <Button onClick={handleQuickSearch} className="w-full" disabled={!selectedLocation || !selectedDate}>
+              <Button onClick={handleQuickSearch} className="w-full" disabled={!selectedLocation || !selectedRange?.from}>
                 <Search className="h-4 w-4 mr-2" />
                 Get Climate Outlook
               </Button>
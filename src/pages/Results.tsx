@@ -3,47 +3,35 @@ import { useSearchParams, useNavigate } from "react-router-dom";
 import { RiskCards, RiskLabel } from "@/components/RiskCards";
 import { DetailsTable, SummaryRow } from "@/components/DetailsTable";
 import { DownloadButtons } from "@/components/DownloadButtons";
+import { TrendSection } from "@/components/TrendSection";
+import { AnomalySection } from "@/components/AnomalySection";
+import { RawSampleTable } from "@/components/RawSampleTable";
+import { ThresholdEditor, ThresholdQuery, ThresholdResult } from "@/components/ThresholdEditor";
+import { metricLabels } from "@/lib/metrics";
+import { RuleSetPicker } from "@/components/RuleSetPicker";
+import { findPresetRuleSet, RuleSet } from "@shared/risk-rules.ts";
+import { convertOutlook } from "@shared/convert.ts";
+import { convertThreshold, unitLabel, UnitSystem } from "@shared/units.ts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertCircle, ArrowLeft, ChevronDown, ChevronUp, Cloud, Sun } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlertCircle, ArrowLeft, ChevronDown, ChevronUp, Cloud, RefreshCw, Sun } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import maplibregl from "maplibre-gl";
 import { useRef } from "react";
-import { AreaChart, Area, BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
-import { supabase } from "@/integrations/supabase/client";
-
-interface DailyBreakdown {
-  date: string;
-  tempMin: number;
-  tempMax: number;
-  precipitation: number;
-  windSpeed: number;
-  uvIndex: number;
-}
-
-interface OutlookResponse {
-  metadata: {
-    latitude: number;
-    longitude: number;
-    date_requested: string;
-    doy: number;
-    window_days: number;
-    years_used: number;
-    samples_n: number;
-    units: string;
-  };
-  summary: SummaryRow[];
-  probabilities: Array<{
-    metric: string;
-    threshold: number;
-    comparator: string;
-    probability_percent: number;
-  }>;
-  risk_labels: RiskLabel[];
-  dailyBreakdown?: DailyBreakdown[];
-}
+import { AreaChart, Area, BarChart, Bar, ComposedChart, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import {
+  describeOutlookError,
+  fetchOutlook,
+  invalidParams,
+  OutlookRequest,
+  OutlookResponse,
+  validateLat,
+  validateLon,
+  validateOutlookRequest,
+} from "@/pages/api/outlook";
 
 const Results = () => {
   const [searchParams] = useSearchParams();
@@ -53,14 +41,32 @@ const Results = () => {
   const [error, setError] = useState("");
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [locationName, setLocationName] = useState<string>("");
+  const [thresholds, setThresholds] = useState<ThresholdQuery[]>([]);
+  const [ruleSet, setRuleSet] = useState<string | RuleSet>("default");
+  const [retryStatus, setRetryStatus] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
+  const popup = useRef<maplibregl.Popup | null>(null);
 
-  const lat = Number(searchParams.get("lat"));
-  const lon = Number(searchParams.get("lon"));
-  const date = searchParams.get("date") || "";
+  // A missing coordinate is NaN rather than 0, which is a valid latitude/longitude
+  const lat = searchParams.has("lat") ? Number(searchParams.get("lat")) : NaN;
+  const lon = searchParams.has("lon") ? Number(searchParams.get("lon")) : NaN;
+  // Either a single date or the first and last day of an event
+  const date = searchParams.get("date") || undefined;
+  const startDate = searchParams.get("start_date") || undefined;
+  const endDate = searchParams.get("end_date") || undefined;
   const window = Number(searchParams.get("window")) || 15;
   const units = searchParams.get("units") || "metric";
+  const provider = searchParams.get("provider") || undefined;
+  // A past year to set against the climatology, for post-event reports
+  const [compareYear, setCompareYear] = useState<number | undefined>(Number(searchParams.get("compare_year")) || undefined);
+  // The daily samples behind the statistics are only fetched once asked for
+  const [includeSamples, setIncludeSamples] = useState(false);
+
+  // Units the report is shown in; switching converts the fetched data in place
+  const [displayUnits, setDisplayUnits] = useState<UnitSystem>(units === "imperial" ? "imperial" : "metric");
+  const activeRuleSet = typeof ruleSet === "string" ? findPresetRuleSet(ruleSet) : ruleSet;
 
   useEffect(() => {
     const fetchLocationName = async () => {
@@ -77,170 +83,76 @@ const Results = () => {
       }
     };
 
-    if (lat && lon) {
+    if (validateLat(lat) && validateLon(lon)) {
       fetchLocationName();
     }
   }, [lat, lon]);
 
   useEffect(() => {
-    const fetchOutlook = async () => {
+    // Abort pending retries when the inputs change or the page unmounts
+    const controller = new AbortController();
+
+    const loadOutlook = async () => {
       setLoading(true);
       setError("");
+      setRetryStatus("");
 
       try {
-        // Call the SARIMAX weather forecast edge function
-        const { data: forecastData, error: functionError } = await supabase.functions.invoke('weather-forecast', {
-          body: { 
-            lat, 
-            lon, 
+        const outlook = await fetchOutlook(
+          {
+            lat,
+            lon,
             date,
+            start_date: startDate,
+            end_date: endDate,
             window,
-            units 
-          }
-        });
-
-        if (functionError) {
-          throw new Error(functionError.message || 'Failed to fetch weather forecast');
-        }
-
-        if (!forecastData) {
-          throw new Error('No forecast data received');
-        }
-
-        // Transform the SARIMAX response to match the expected OutlookResponse format
-        const transformedData: OutlookResponse = {
-          metadata: {
-            latitude: lat,
-            longitude: lon,
-            date_requested: date,
-            doy: Math.floor((new Date(date).getTime() - new Date(new Date(date).getFullYear(), 0, 0).getTime()) / 86400000),
-            window_days: window,
-            years_used: forecastData.metadata.historicalDataYears || 3,
-            samples_n: 365 * (forecastData.metadata.historicalDataYears || 3),
-            units: units,
+            units: units as OutlookRequest["units"],
+            thresholds,
+            provider,
+            rule_set: ruleSet,
+            compare_year: compareYear,
+            include_samples: includeSamples || undefined,
           },
-          summary: [
-            {
-              var: 't_mean',
-              unit: forecastData.forecast.temperature.unit,
-              mean: forecastData.forecast.temperature.mean,
-              std: 2.5,
-              p10: forecastData.forecast.temperature.min,
-              p25: (forecastData.forecast.temperature.min + forecastData.forecast.temperature.mean) / 2,
-              p50: forecastData.forecast.temperature.mean,
-              p75: (forecastData.forecast.temperature.mean + forecastData.forecast.temperature.max) / 2,
-              p90: forecastData.forecast.temperature.max,
-            },
-            {
-              var: 't_min',
-              unit: forecastData.forecast.temperature.unit,
-              mean: forecastData.forecast.temperature.min,
-              std: 1.5,
-              p10: forecastData.forecast.temperature.min - 3,
-              p25: forecastData.forecast.temperature.min - 1,
-              p50: forecastData.forecast.temperature.min,
-              p75: forecastData.forecast.temperature.min + 1,
-              p90: forecastData.forecast.temperature.min + 2,
-            },
-            {
-              var: 't_max',
-              unit: forecastData.forecast.temperature.unit,
-              mean: forecastData.forecast.temperature.max,
-              std: 1.8,
-              p10: forecastData.forecast.temperature.max - 2,
-              p25: forecastData.forecast.temperature.max - 1,
-              p50: forecastData.forecast.temperature.max,
-              p75: forecastData.forecast.temperature.max + 1,
-              p90: forecastData.forecast.temperature.max + 3,
+          {
+            signal: controller.signal,
+            onRetry: ({ attempt, delayMs, error }) => {
+              setRetryStatus(`${describeOutlookError(error)} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})…`);
             },
-            {
-              var: 'precip_mm',
-              unit: forecastData.forecast.precipitation.unit,
-              mean: forecastData.forecast.precipitation.amount,
-              std: forecastData.forecast.precipitation.amount * 0.4,
-              p10: forecastData.forecast.precipitation.amount * 0.3,
-              p25: forecastData.forecast.precipitation.amount * 0.5,
-              p50: forecastData.forecast.precipitation.amount,
-              p75: forecastData.forecast.precipitation.amount * 1.2,
-              p90: forecastData.forecast.precipitation.amount * 1.5,
-            },
-            {
-              var: 'wind10m',
-              unit: forecastData.forecast.wind?.unit || 'km/h',
-              mean: forecastData.forecast.wind?.speed || 0,
-              std: (forecastData.forecast.wind?.speed || 0) * 0.3,
-              p10: (forecastData.forecast.wind?.speed || 0) * 0.6,
-              p25: (forecastData.forecast.wind?.speed || 0) * 0.8,
-              p50: forecastData.forecast.wind?.speed || 0,
-              p75: (forecastData.forecast.wind?.speed || 0) * 1.2,
-              p90: forecastData.forecast.wind?.gusts || (forecastData.forecast.wind?.speed || 0) * 1.5,
-            },
-          ],
-          probabilities: [
-            {
-              metric: 'precip_mm',
-              threshold: 1,
-              comparator: '>=',
-              probability_percent: forecastData.forecast.precipitation.probability * 100,
-            },
-            {
-              metric: 't_mean',
-              threshold: 30,
-              comparator: '>',
-              probability_percent: forecastData.forecast.temperature.mean > 30 ? 70 : 20,
-            },
-          ],
-          risk_labels: [
-            {
-              risk_type: forecastData.forecast.temperature.mean > 35 ? 'very_hot' : 
-                         forecastData.forecast.temperature.mean < 0 ? 'very_cold' : 
-                         'very_uncomfortable',
-              level: (forecastData.forecast.temperature.mean > 38 || forecastData.forecast.temperature.mean < -5 ? 'high' : 
-                     forecastData.forecast.temperature.mean > 33 || forecastData.forecast.temperature.mean < 2 ? 'medium' : 'low') as 'low' | 'medium' | 'high',
-              probability_percent: Math.min(95, Math.max(60, forecastData.forecast.temperature.confidence * 100)),
-              rule_applied: `${forecastData.summary.reliability}. Model: ${forecastData.metadata.model}`,
-            },
-            {
-              risk_type: 'very_wet',
-              level: (forecastData.forecast.precipitation.amount > 25 ? 'high' : 
-                     forecastData.forecast.precipitation.amount > 10 ? 'medium' : 'low') as 'low' | 'medium' | 'high',
-              probability_percent: forecastData.forecast.precipitation.amount > 1 ? Math.min(90, Math.max(55, forecastData.forecast.precipitation.probability * 100)) : 0,
-              rule_applied: `Expected rainfall: ${forecastData.forecast.precipitation.amount.toFixed(1)}${forecastData.forecast.precipitation.unit}. Probability: ${(forecastData.forecast.precipitation.probability * 100).toFixed(0)}%`,
-            },
-            {
-              risk_type: 'very_windy',
-              level: ((forecastData.forecast.wind?.speed || 0) > 40 ? 'high' : 
-                     (forecastData.forecast.wind?.speed || 0) > 25 ? 'medium' : 'low') as 'low' | 'medium' | 'high',
-              probability_percent: (forecastData.forecast.wind?.speed || 0) > 10 ? Math.min(85, Math.max(40, 50 + (forecastData.forecast.wind?.speed || 0))) : 20,
-              rule_applied: `Wind speed: ${(forecastData.forecast.wind?.speed || 0).toFixed(1)} ${forecastData.forecast.wind?.unit || 'km/h'}. Gusts up to ${(forecastData.forecast.wind?.gusts || forecastData.forecast.wind?.speed || 0).toFixed(1)} ${forecastData.forecast.wind?.unit || 'km/h'}`,
-            },
-            {
-              risk_type: 'very_uncomfortable',
-              level: (forecastData.forecast.temperature.mean > 28 && forecastData.forecast.precipitation.amount > 5 ? 'high' :
-                     forecastData.forecast.temperature.mean > 25 || forecastData.forecast.precipitation.amount > 2 ? 'medium' : 'low') as 'low' | 'medium' | 'high',
-              probability_percent: Math.min(75, Math.max(30, (forecastData.forecast.temperature.mean > 25 ? 60 : 35) + (forecastData.forecast.precipitation.amount * 2))),
-              rule_applied: `Humidity and heat index assessment. Temperature: ${forecastData.forecast.temperature.mean.toFixed(1)}°C, Expected precipitation: ${forecastData.forecast.precipitation.amount.toFixed(1)}mm`,
-            },
-          ],
-          dailyBreakdown: forecastData.dailyBreakdown || [],
-        };
-        
-        setData(transformedData);
-      } catch (err: any) {
+          }
+        );
+
+        setData(outlook);
+      } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Forecast error:', err);
-        setError(err.message || "An error occurred while fetching forecast data");
+        setError(describeOutlookError(err));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setRetryStatus("");
+        }
       }
     };
 
-    if (lat && lon && date) {
-      fetchOutlook();
+    const fieldErrors = validateOutlookRequest({
+      lat,
+      lon,
+      date,
+      start_date: startDate,
+      end_date: endDate,
+      window,
+      units,
+      compare_year: compareYear,
+    });
+    if (fieldErrors.length === 0) {
+      loadOutlook();
     } else {
-      setError("Missing required parameters");
+      setError(describeOutlookError(invalidParams(fieldErrors)));
       setLoading(false);
     }
-  }, [lat, lon, date, window, units]);
+
+    return () => controller.abort();
+  }, [lat, lon, date, startDate, endDate, window, units, thresholds, provider, ruleSet, compareYear, includeSamples, reloadKey]);
 
   useEffect(() => {
     if (!mapContainer.current || map.current || !data) return;
@@ -260,7 +172,7 @@ const Results = () => {
     map.current.on('load', () => {
       if (!map.current) return;
 
-      // Add temperature heatmap radius
+      // Add temperature heatmap radius (colour stops are in °C)
       const tempValue = tempData?.p50 || 25;
       const tempNormalized = Math.max(0, Math.min(100, ((tempValue + 10) / 60) * 100));
       
@@ -326,28 +238,40 @@ const Results = () => {
              "hsl(25, 70%, 50%)" 
     })
       .setLngLat([lon, lat])
-      .setPopup(
-        new maplibregl.Popup({ offset: 25 }).setHTML(
-          `<div class="p-2">
-            <strong>Selected Location</strong><br/>
-            ${lat.toFixed(2)}°, ${lon.toFixed(2)}°<br/>
-            <span class="text-sm">Temp: ${tempData?.p50.toFixed(1)}°C</span>
-          </div>`
-        )
-      )
+      .setPopup((popup.current = new maplibregl.Popup({ offset: 25 })))
       .addTo(map.current);
 
     return () => {
       map.current?.remove();
       map.current = null;
+      popup.current = null;
     };
   }, [data, lat, lon]);
 
-  if (loading) {
+  useEffect(() => {
+    if (!popup.current || !data) return;
+    const meanTemp = convertOutlook(data, displayUnits).summary.find(s => s.var === 't_mean');
+    popup.current.setHTML(
+      `<div class="p-2">
+        <strong>Selected Location</strong><br/>
+        ${lat.toFixed(2)}°, ${lon.toFixed(2)}°<br/>
+        <span class="text-sm">Temp: ${meanTemp?.p50?.toFixed(1) ?? "—"}${unitLabel("temperature", displayUnits)}</span>
+      </div>`
+    );
+  }, [data, displayUnits, lat, lon]);
+
+  // Keep the current report on screen while custom thresholds are re-evaluated
+  if (loading && !data) {
     return (
       <div className="min-h-screen bg-background p-8">
         <div className="max-w-7xl mx-auto space-y-8">
           <Skeleton className="h-12 w-64" />
+          {retryStatus && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{retryStatus}</AlertDescription>
+            </Alert>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {[1, 2, 3, 4, 5].map((i) => (
               <Skeleton key={i} className="h-40" />
@@ -366,19 +290,52 @@ const Results = () => {
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>{error || "No data available"}</AlertDescription>
           </Alert>
-          <Button onClick={() => navigate("/")} className="mt-4">
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Search
-          </Button>
+          <div className="flex gap-3 mt-4">
+            <Button onClick={() => navigate("/")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Search
+            </Button>
+            {error && (
+              <Button variant="outline" onClick={() => setReloadKey(key => key + 1)}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try again
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     );
   }
 
+  // Everything shown uses the selected units; colour bands and the map are
+  // keyed to metric values whatever the display
+  const view = convertOutlook(data, displayUnits, activeRuleSet);
+  const metricView = convertOutlook(data, "metric", activeRuleSet);
+  const shown = (name: string) => view.summary.find(s => s.var === name);
+  const tempUnit = unitLabel("temperature", displayUnits);
+  const precipUnit = unitLabel("precipitation", displayUnits);
+  const windUnit = unitLabel("wind", displayUnits);
+
+  // Thresholds are requested in the fetched units and edited in the shown ones
+  const toShownQuery = (q: ThresholdQuery) => ({
+    ...q,
+    threshold: convertThreshold(q.metric, q.threshold, data.metadata.units, displayUnits),
+  });
+  const shownQueries = thresholds.map(toShownQuery);
+  const updateThresholds = (next: ThresholdQuery[]) => {
+    setThresholds(next.map(q => {
+      const existing = thresholds.find(t => {
+        const shownQuery = toShownQuery(t);
+        return shownQuery.metric === q.metric && shownQuery.comparator === q.comparator && shownQuery.threshold === q.threshold;
+      });
+      return existing ?? { ...q, threshold: convertThreshold(q.metric, q.threshold, displayUnits, data.metadata.units) };
+    }));
+  };
+
   // Prepare temperature range chart data (min to max)
-  const tMinData = data.summary.find(s => s.var === 't_min');
-  const tMaxData = data.summary.find(s => s.var === 't_max');
-  const tempData = data.summary.find(s => s.var === 't_mean');
+  const tMinData = metricView.summary.find(s => s.var === 't_min');
+  const tMaxData = metricView.summary.find(s => s.var === 't_max');
+  const tempData = metricView.summary.find(s => s.var === 't_mean');
   
   const tempChartData = [
     { 
@@ -390,20 +347,20 @@ const Results = () => {
   ];
 
   // Prepare precipitation simple data
-  const precipData = data.summary.find(s => s.var === 'precip_mm');
-  const precipProb = data.probabilities.find(p => p.metric === 'precip_mm' && p.threshold >= 1);
+  const precipData = metricView.summary.find(s => s.var === 'precip_mm');
+  const precipProb = metricView.probabilities.find(p => p.metric === 'precip_mm' && p.threshold >= 1);
   const precipChartData = [
     { name: 'No Rain', value: 100 - (precipProb?.probability_percent || 0), fill: 'hsl(var(--muted))' },
     { name: 'Rain Expected', value: precipProb?.probability_percent || 0, fill: 'hsl(var(--risk-wet))' }
   ];
 
   // Get highest risk for featured display
-  const highestRisk = data.risk_labels.reduce((prev, current) => {
+  const highestRisk = view.risk_labels.reduce((prev, current) => {
     const levelOrder = { high: 3, medium: 2, low: 1 };
     return levelOrder[current.level] > levelOrder[prev.level] ? current : prev;
   });
 
-  const otherRisks = data.risk_labels.filter(r => r !== highestRisk);
+  const otherRisks = view.risk_labels.filter(r => r !== highestRisk);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[hsl(200_100%_88%)] via-[hsl(190_95%_85%)] to-[hsl(45_100%_88%)] relative overflow-hidden">
@@ -427,9 +384,21 @@ const Results = () => {
             New Search
           </Button>
           <div className="flex flex-col gap-4">
-            <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
-              Climate Outlook Report
-            </h1>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+                Climate Outlook Report
+              </h1>
+              <ToggleGroup
+                type="single"
+                value={displayUnits}
+                onValueChange={(value) => value && setDisplayUnits(value as UnitSystem)}
+                className="bg-white/70 backdrop-blur-sm rounded-xl border-2 border-white/50 p-1 shadow-md"
+                aria-label="Units"
+              >
+                <ToggleGroupItem value="metric" aria-label="Metric units">°C · mm · km/h</ToggleGroupItem>
+                <ToggleGroupItem value="imperial" aria-label="Imperial units">°F · in · mph</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
               <div className="bg-white/70 backdrop-blur-sm px-5 py-3 rounded-xl border-2 border-white/50 shadow-md">
                 <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">Location</div>
@@ -438,9 +407,15 @@ const Results = () => {
                 </div>
               </div>
               <div className="bg-white/70 backdrop-blur-sm px-5 py-3 rounded-xl border-2 border-white/50 shadow-md">
-                <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">Target Days</div>
+                <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                  {view.span ? "Event Dates" : "Target Days"}
+                </div>
                 <div className="text-lg font-bold text-foreground">
-                  {(() => {
+                  {view.span ? (() => {
+                    const first = new Date(`${view.span.start_date}T00:00`);
+                    const last = new Date(`${view.span.end_date}T00:00`);
+                    return `${first.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${last.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+                  })() : (() => {
                     const targetDate = new Date(data.metadata.date_requested);
                     const startDate = new Date(targetDate);
                     startDate.setDate(targetDate.getDate() - data.metadata.window_days);
@@ -464,11 +439,30 @@ const Results = () => {
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 py-8 space-y-8 relative z-10">
+        {/* Provider coverage warnings (truncated year windows) */}
+        {data.metadata.warnings.length > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {data.metadata.warnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Featured Risk - Cleaner Design */}
         <section className="animate-fade-in">
-          <h2 className="text-2xl font-bold mb-4 text-foreground">
-            Primary Weather Alert
-          </h2>
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-4">
+            <h2 className="text-2xl font-bold text-foreground">
+              Primary Weather Alert
+            </h2>
+            <div className="md:w-96">
+              <RuleSetPicker value={ruleSet} onChange={setRuleSet} disabled={loading} />
+            </div>
+          </div>
           <div className="relative">
             <RiskCards data={[highestRisk]} featured />
           </div>
@@ -543,7 +537,7 @@ const Results = () => {
                       return '#65a30d';
                     })()
                   }}>
-                    {tMinData?.p50.toFixed(0)}°
+                    {shown('t_min')?.p50?.toFixed(0) ?? "—"}°
                   </div>
                   <div className={`h-2.5 rounded-full w-20 mx-auto transition-all duration-500 shadow-md ${
                     (() => {
@@ -582,7 +576,7 @@ const Results = () => {
                       return '#dc2626';
                     })()
                   }}>
-                    {tempData?.p50.toFixed(0)}°
+                    {shown('t_mean')?.p50?.toFixed(0) ?? "—"}°
                   </div>
                   <div className={`h-3 rounded-full w-24 mx-auto transition-all duration-500 shadow-lg ${
                     (() => {
@@ -620,7 +614,7 @@ const Results = () => {
                       return '#dc2626';
                     })()
                   }}>
-                    {tMaxData?.p50.toFixed(0)}°
+                    {shown('t_max')?.p50?.toFixed(0) ?? "—"}°
                   </div>
                   <div className={`h-2.5 rounded-full w-20 mx-auto transition-all duration-500 shadow-md ${
                     (() => {
@@ -641,7 +635,7 @@ const Results = () => {
                   <div className="flex items-center justify-between">
                     <span className="text-xs font-bold text-red-700">Very Hot</span>
                     <span className="text-xl font-black text-red-600">
-                      {Math.min(100, tempData && tempData.p50 > 35 ? 85 : tempData && tempData.p50 > 30 ? 45 : 10)}%
+                      {(view.risk_labels.find(r => r.risk_type === 'very_hot')?.probability_percent || 0).toFixed(0)}%
                     </span>
                   </div>
                 </div>
@@ -649,7 +643,7 @@ const Results = () => {
                   <div className="flex items-center justify-between">
                     <span className="text-xs font-bold text-blue-700">Very Cold</span>
                     <span className="text-xl font-black text-blue-600">
-                      {Math.min(100, tempData && tempData.p50 < 5 ? 75 : tempData && tempData.p50 < 10 ? 35 : 5)}%
+                      {(view.risk_labels.find(r => r.risk_type === 'very_cold')?.probability_percent || 0).toFixed(0)}%
                     </span>
                   </div>
                 </div>
@@ -657,7 +651,7 @@ const Results = () => {
               
               <div className="bg-white/70 rounded-2xl p-4 border-2 border-white/80 backdrop-blur-sm transition-all duration-300 group-hover:bg-white/90 group-hover:shadow-lg">
                 <div className="text-sm font-semibold text-muted-foreground text-center">
-                  Expected Range: {tMinData?.p50.toFixed(1)}°C - {tMaxData?.p50.toFixed(1)}°C
+                  Expected Range: {shown('t_min')?.p50?.toFixed(1) ?? "—"}{tempUnit} - {shown('t_max')?.p50?.toFixed(1) ?? "—"}{tempUnit}
                 </div>
               </div>
             </CardContent>
@@ -726,7 +720,7 @@ const Results = () => {
                         if (amount < 15) return 'text-sky-700';
                         return 'text-blue-700';
                       })()
-                    }`}>{precipData?.p50.toFixed(1)} mm</span>
+                    }`}>{shown('precip_mm')?.p50?.toFixed(displayUnits === 'imperial' ? 2 : 1) ?? "—"} {precipUnit}</span>
                   </div>
                 </div>
                 
@@ -750,15 +744,48 @@ const Results = () => {
           </Card>
         </section>
 
+        {/* Event (date-range) probabilities */}
+        {view.span && (
+          <section className="animate-fade-in">
+            <h2 className="text-2xl font-bold mb-2">
+              Across Your {view.span.days}-Day Event
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Share of {view.span.samples_n} historical {view.span.days}-day spans around these dates that met each condition.
+            </p>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {view.span.probabilities.map((result) => {
+                const unit = shown(result.metric)?.unit ?? "";
+                const comparator = { ">": ">", ">=": "≥", "<": "<", "<=": "≤" }[result.comparator];
+                return (
+                  <Card
+                    key={`${result.metric}-${result.comparator}-${result.threshold}-${result.quantifier}`}
+                    className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl"
+                  >
+                    <CardContent className="pt-6">
+                      <div className="text-4xl font-black text-primary">{result.probability_percent.toFixed(0)}%</div>
+                      <div className="text-sm font-medium mt-2">
+                        {result.quantifier === "any" ? "At least one day" : "Every day"} with{" "}
+                        {(metricLabels[result.metric] ?? result.metric).toLowerCase()} {comparator} {result.threshold}
+                        {unit === "°C" || unit === "°F" || unit === "%" ? "" : " "}{unit}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
         {/* Daily Charts Section */}
-        {data.dailyBreakdown && data.dailyBreakdown.length > 0 && (
+        {view.dailyBreakdown && view.dailyBreakdown.length > 0 && (
           <section className="grid md:grid-cols-2 gap-6 animate-fade-in">
             {/* Daily Temperature Chart */}
             <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl overflow-hidden">
               <CardContent className="pt-6">
                 <h3 className="text-xl font-bold mb-4">Daily Temperature Forecast</h3>
                 <ResponsiveContainer width="100%" height={250}>
-                  <LineChart data={data.dailyBreakdown}>
+                  <LineChart data={view.dailyBreakdown}>
                     <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
                     <XAxis 
                       dataKey="date" 
@@ -769,11 +796,11 @@ const Results = () => {
                     <YAxis 
                       fontSize={12}
                       stroke="hsl(var(--muted-foreground))"
-                      label={{ value: '°C', angle: -90, position: 'insideLeft' }}
+                      label={{ value: tempUnit, angle: -90, position: 'insideLeft' }}
                     />
                     <Tooltip 
                       labelFormatter={(value) => new Date(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
-                      formatter={(value: number) => [`${value.toFixed(1)}°C`, '']}
+                      formatter={(value: number) => [`${value.toFixed(1)}${tempUnit}`, '']}
                       contentStyle={{ 
                         backgroundColor: 'rgba(255, 255, 255, 0.95)', 
                         border: '1px solid rgba(0,0,0,0.1)',
@@ -804,12 +831,78 @@ const Results = () => {
               </CardContent>
             </Card>
 
+            {/* Hourly (diurnal) profile for the target date */}
+            {view.hourly_profile.length > 0 && (
+              <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl overflow-hidden">
+                <CardContent className="pt-6">
+                  <h3 className="text-xl font-bold mb-4">Hour-by-Hour Profile</h3>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <ComposedChart data={view.hourly_profile}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                      <XAxis
+                        dataKey="hour"
+                        tickFormatter={(hour) => `${String(hour).padStart(2, '0')}:00`}
+                        fontSize={12}
+                        stroke="hsl(var(--muted-foreground))"
+                      />
+                      <YAxis
+                        yAxisId="temp"
+                        fontSize={12}
+                        stroke="hsl(var(--muted-foreground))"
+                        label={{ value: tempUnit, angle: -90, position: 'insideLeft' }}
+                      />
+                      <YAxis
+                        yAxisId="precip"
+                        orientation="right"
+                        domain={[0, 100]}
+                        fontSize={12}
+                        stroke="hsl(var(--muted-foreground))"
+                        label={{ value: '%', angle: 90, position: 'insideRight' }}
+                      />
+                      <Tooltip
+                        labelFormatter={(hour, payload) => {
+                          const wind = payload?.[0]?.payload?.wind_p50;
+                          const time = `${String(hour).padStart(2, '0')}:00 local time`;
+                          return wind === null || wind === undefined ? time : `${time} · wind ${wind.toFixed(1)} ${windUnit}`;
+                        }}
+                        formatter={(value: number, name: string) =>
+                          name === 'Chance of Rain' ? [`${value.toFixed(0)}%`, name] : [`${value.toFixed(1)}${tempUnit}`, name]
+                        }
+                        contentStyle={{
+                          backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                          border: '1px solid rgba(0,0,0,0.1)',
+                          borderRadius: '8px'
+                        }}
+                      />
+                      <Legend />
+                      <Bar
+                        yAxisId="precip"
+                        dataKey="precip_probability"
+                        fill="#0ea5e9"
+                        fillOpacity={0.35}
+                        name="Chance of Rain"
+                        radius={[4, 4, 0, 0]}
+                      />
+                      <Line yAxisId="temp" type="monotone" dataKey="temp_p90" stroke="#ef4444" strokeDasharray="4 4" dot={false} name="Warm (p90)" />
+                      <Line yAxisId="temp" type="monotone" dataKey="temp_p50" stroke="#f97316" strokeWidth={3} dot={false} name="Typical (p50)" />
+                      <Line yAxisId="temp" type="monotone" dataKey="temp_p10" stroke="#3b82f6" strokeDasharray="4 4" dot={false} name="Cool (p10)" />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Year-over-year trend of the window */}
+            {view.trend.years.length > 1 && (
+              <TrendSection trend={view.trend} units={displayUnits} windowDays={view.metadata.window_days} />
+            )}
+
             {/* Daily Precipitation Chart */}
             <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl overflow-hidden">
               <CardContent className="pt-6">
                 <h3 className="text-xl font-bold mb-4">Daily Precipitation Forecast</h3>
                 <ResponsiveContainer width="100%" height={250}>
-                  <BarChart data={data.dailyBreakdown}>
+                  <BarChart data={view.dailyBreakdown}>
                     <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
                     <XAxis 
                       dataKey="date" 
@@ -820,11 +913,11 @@ const Results = () => {
                     <YAxis 
                       fontSize={12}
                       stroke="hsl(var(--muted-foreground))"
-                      label={{ value: 'mm', angle: -90, position: 'insideLeft' }}
+                      label={{ value: precipUnit, angle: -90, position: 'insideLeft' }}
                     />
                     <Tooltip 
                       labelFormatter={(value) => new Date(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
-                      formatter={(value: number) => [`${value.toFixed(1)} mm`, 'Precipitation']}
+                      formatter={(value: number) => [`${value.toFixed(displayUnits === 'imperial' ? 2 : 1)} ${precipUnit}`, 'Precipitation']}
                       contentStyle={{ 
                         backgroundColor: 'rgba(255, 255, 255, 0.95)', 
                         border: '1px solid rgba(0,0,0,0.1)',
@@ -834,7 +927,7 @@ const Results = () => {
                     <Bar 
                       dataKey="precipitation" 
                       fill="#3b82f6" 
-                      name="Precipitation (mm)"
+                      name={`Precipitation (${precipUnit})`}
                       radius={[8, 8, 0, 0]}
                     />
                   </BarChart>
@@ -870,16 +963,16 @@ const Results = () => {
                   <div className="space-y-2 text-sm">
                     <div className="flex items-center gap-3">
                       <div className="w-4 h-4 rounded-full bg-gradient-to-r from-blue-500 to-red-500 shadow-sm"></div>
-                      <span className="font-medium">Temp: {tempData?.p50.toFixed(1)}°C</span>
+                      <span className="font-medium">Temp: {shown('t_mean')?.p50?.toFixed(1) ?? "—"}{tempUnit}</span>
                     </div>
                     <div className="flex items-center gap-3">
                       <div className="w-4 h-4 rounded-full bg-sky-500 shadow-sm"></div>
                       <span className="font-medium">Rain: {(precipProb?.probability_percent || 0).toFixed(0)}%</span>
                     </div>
-                    {data.summary.find(s => s.var === 'wind10m') && (
+                    {shown('wind10m') && (
                       <div className="flex items-center gap-3">
                         <div className="w-4 h-4 rounded-full bg-slate-500 shadow-sm"></div>
-                        <span className="font-medium">Wind: {data.summary.find(s => s.var === 'wind10m')?.p50.toFixed(1)} m/s</span>
+                        <span className="font-medium">Wind: {shown('wind10m')?.p50?.toFixed(1) ?? "—"} {windUnit}</span>
                       </div>
                     )}
                   </div>
@@ -911,7 +1004,8 @@ const Results = () => {
               <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl">
                 <CardContent className="pt-6">
                   <DetailsTable
-                    summary={data.summary}
+                    summary={view.summary}
+                    units={displayUnits}
                     windowDays={data.metadata.window_days}
                   />
                 </CardContent>
@@ -920,6 +1014,72 @@ const Results = () => {
           </Collapsible>
         </section>
 
+        {/* Custom Thresholds */}
+        <section className="animate-fade-in">
+          <h2 className="text-2xl font-bold mb-4">
+            Custom Thresholds
+          </h2>
+          <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-4">
+                Ask for the chance of any condition, e.g. max temperature ≥ 32. Probabilities are the share of
+                historical days in the window that met the condition.
+              </p>
+              <ThresholdEditor
+                queries={shownQueries}
+                results={view.probabilities}
+                units={Object.fromEntries(view.summary.map(s => [s.var, s.unit]))}
+                onChange={updateThresholds}
+                disabled={loading}
+              />
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Past year against the climatology */}
+        <section className="animate-fade-in">
+          <h2 className="text-2xl font-bold mb-4">
+            Compare a Past Year
+          </h2>
+          <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-4">
+                Pick an archived year to see how its window compared with every year on record, e.g. whether
+                last year's event was unusually wet. Percentile ranks place that year's window average among all years.
+              </p>
+              <AnomalySection
+                years={view.trend.years.map(row => row.year)}
+                year={compareYear}
+                anomaly={view.anomaly}
+                onYearChange={setCompareYear}
+                units={displayUnits}
+                disabled={loading}
+              />
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Daily samples behind the statistics */}
+        <section className="animate-fade-in">
+          <h2 className="text-2xl font-bold mb-4">
+            Raw Samples
+          </h2>
+          <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-4">
+                Every historical day pooled into this outlook, to audit what the statistics are based on.
+              </p>
+              {view.raw_sample_snapshot ? (
+                <RawSampleTable samples={view.raw_sample_snapshot} units={displayUnits} />
+              ) : (
+                <Button variant="outline" onClick={() => setIncludeSamples(true)} disabled={loading}>
+                  Load the {view.metadata.samples_n} daily samples
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+
         {/* Downloads */}
         <section className="animate-fade-in">
           <h2 className="text-2xl font-bold mb-4">
@@ -928,10 +1088,10 @@ const Results = () => {
           <Card className="border-2 border-white/40 bg-white/50 backdrop-blur-md rounded-2xl">
             <CardContent className="pt-6">
               <DownloadButtons
-                jsonPayload={data}
+                jsonPayload={view}
                 lat={lat}
                 lon={lon}
-                date={date}
+                date={date ?? `${startDate}-to-${endDate}`}
               />
             </CardContent>
           </Card>
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Navigation, MapPin, Calendar as CalendarIcon, Loader2, ArrowDown, Home, AlertTriangle } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from "recharts";
-import { supabase } from "@/integrations/supabase/client";
+import { describeOutlookError, fetchOutlookBatch, OutlookResponse } from "@/pages/api/outlook";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import maplibregl from "maplibre-gl";
@@ -17,44 +17,19 @@ interface Waypoint {
   date?: Date;
 }
 
-interface DailyBreakdown {
-  date: string;
-  tempMin: number;
-  tempMax: number;
-  precipitation: number;
-  windSpeed: number;
-  uvIndex: number;
-}
+type ClimateData = OutlookResponse["forecast"] & {
+  summary: OutlookResponse["conditions"];
+  risk_labels: OutlookResponse["risk_labels"];
+  dailyBreakdown: OutlookResponse["dailyBreakdown"];
+};
 
-interface ClimateData {
-  temperature: {
-    mean: number;
-    min: number;
-    max: number;
-    daytime: number;
-    nighttime: number;
-    unit: string;
-  };
-  precipitation: {
-    probability: number;
-    amount: number;
-    unit: string;
-  };
-  wind: {
-    speed: number;
-    unit: string;
-  };
-  atmosphere: {
-    humidity: number;
-    cloudCover: number;
-    uvIndex: number;
-  };
-  summary: {
-    outlook: string;
-    precipitationRisk: string;
-  };
-  dailyBreakdown: DailyBreakdown[];
-}
+const riskNames: Record<string, string> = {
+  very_hot: "Very hot",
+  very_cold: "Very cold",
+  very_windy: "Very windy",
+  very_wet: "Very wet",
+  very_uncomfortable: "Very uncomfortable",
+};
 
 const TravelResults = () => {
   const navigate = useNavigate();
@@ -92,39 +67,41 @@ const TravelResults = () => {
     setLoading(true);
     const data: Record<string, ClimateData> = {};
 
-    for (const waypoint of wps) {
-      if (waypoint.date) {
-        try {
-          const year = waypoint.date.getFullYear();
-          const month = String(waypoint.date.getMonth() + 1).padStart(2, '0');
-          const day = String(waypoint.date.getDate()).padStart(2, '0');
-          const dateStr = `${year}-${month}-${day}`;
-
-          const { data: forecastData, error } = await supabase.functions.invoke("weather-forecast", {
-            body: {
-              lat: waypoint.location.lat,
-              lon: waypoint.location.lon,
-              date: dateStr,
-              window: 7,
-              units: "metric",
-            },
-          });
-
-          if (error) throw error;
-
-          if (forecastData?.forecast) {
-            data[waypoint.id] = {
-              temperature: forecastData.forecast.temperature,
-              precipitation: forecastData.forecast.precipitation,
-              wind: forecastData.forecast.wind,
-              atmosphere: forecastData.forecast.atmosphere,
-              summary: forecastData.summary,
-              dailyBreakdown: forecastData.dailyBreakdown || [],
-            };
+    const items = wps
+      .filter(waypoint => waypoint.date)
+      .map(waypoint => ({
+        id: waypoint.id,
+        lat: waypoint.location.lat,
+        lon: waypoint.location.lon,
+        date: format(waypoint.date, "yyyy-MM-dd"),
+        window: 7,
+      }));
+
+    if (items.length > 0) {
+      try {
+        const results = await fetchOutlookBatch({ items, units: "metric" });
+
+        wps.forEach(waypoint => {
+          const result = results[waypoint.id];
+          if (!result) return;
+          if (!result.ok) {
+            console.error(`Error fetching climate for ${waypoint.name}:`, result.error);
+            return;
           }
-        } catch (error) {
-          console.error(`Error fetching climate for ${waypoint.name}:`, error);
-        }
+          data[waypoint.id] = {
+            ...result.data.forecast,
+            summary: result.data.conditions,
+            risk_labels: result.data.risk_labels,
+            dailyBreakdown: result.data.dailyBreakdown,
+          };
+        });
+      } catch (error) {
+        console.error("Error fetching climate for route:", error);
+        toast({
+          title: "Error",
+          description: describeOutlookError(error),
+          variant: "destructive",
+        });
       }
     }
 
@@ -174,7 +151,7 @@ const TravelResults = () => {
       // Determine temperature condition and color
       let tempColor = 'hsl(var(--primary))';
       let tempIcon = '🌡️';
-      if (climateInfo) {
+      if (climateInfo && climateInfo.temperature.mean !== null) {
         const temp = climateInfo.temperature.mean;
         if (temp < 5) {
           tempColor = '#60a5fa'; // Cold - blue
@@ -293,9 +270,9 @@ const TravelResults = () => {
           ${waypoint.date ? `<p style="font-size: 13px; color: #666; margin-bottom: 8px;">${format(waypoint.date, "PPP")}</p>` : ''}
           ${climateInfo ? `
             <div style="border-top: 1px solid #e5e5e5; padding-top: 8px; font-size: 13px;">
-              <p style="margin: 4px 0;">🌡️ ${climateInfo.temperature.mean.toFixed(1)}${climateInfo.temperature.unit}</p>
+              <p style="margin: 4px 0;">🌡️ ${climateInfo.temperature.mean?.toFixed(1) ?? "—"}${climateInfo.temperature.unit}</p>
               <p style="margin: 4px 0;">🌧️ ${climateInfo.precipitation.probability}% rain chance</p>
-              <p style="margin: 4px 0;">💨 ${climateInfo.wind.speed.toFixed(1)} ${climateInfo.wind.unit}</p>
+              <p style="margin: 4px 0;">💨 ${climateInfo.wind.speed?.toFixed(1) ?? "—"} ${climateInfo.wind.unit}</p>
             </div>
           ` : '<p style="font-size: 12px; color: #999; margin-top: 8px;">Loading climate data...</p>'}
         </div>
@@ -454,21 +431,21 @@ const TravelResults = () => {
                                   <div>
                                     <p className="text-xs text-muted-foreground">Day Temperature</p>
                                     <p className="font-semibold">
-                                      {climateData[waypoint.id].temperature.daytime.toFixed(1)}
+                                      {climateData[waypoint.id].temperature.daytime?.toFixed(1) ?? "—"}
                                       {climateData[waypoint.id].temperature.unit}
                                     </p>
                                   </div>
                                   <div>
                                     <p className="text-xs text-muted-foreground">Night Temperature</p>
                                     <p className="font-semibold">
-                                      {climateData[waypoint.id].temperature.nighttime.toFixed(1)}
+                                      {climateData[waypoint.id].temperature.nighttime?.toFixed(1) ?? "—"}
                                       {climateData[waypoint.id].temperature.unit}
                                     </p>
                                   </div>
                                   <div>
                                     <p className="text-xs text-muted-foreground">Min - Max</p>
                                     <p className="font-semibold">
-                                      {climateData[waypoint.id].temperature.min.toFixed(1)} - {climateData[waypoint.id].temperature.max.toFixed(1)}
+                                      {climateData[waypoint.id].temperature.min?.toFixed(1) ?? "—"} - {climateData[waypoint.id].temperature.max?.toFixed(1) ?? "—"}
                                       {climateData[waypoint.id].temperature.unit}
                                     </p>
                                   </div>
@@ -478,24 +455,24 @@ const TravelResults = () => {
                                       {climateData[waypoint.id].precipitation.probability}%
                                     </p>
                                     <p className="text-xs text-muted-foreground">
-                                      {climateData[waypoint.id].precipitation.amount.toFixed(1)} {climateData[waypoint.id].precipitation.unit}
+                                      {climateData[waypoint.id].precipitation.amount?.toFixed(1) ?? "—"} {climateData[waypoint.id].precipitation.unit}
                                     </p>
                                   </div>
                                   <div>
                                     <p className="text-xs text-muted-foreground">Wind Speed</p>
                                     <p className="font-semibold">
-                                      {climateData[waypoint.id].wind.speed.toFixed(1)} {climateData[waypoint.id].wind.unit}
+                                      {climateData[waypoint.id].wind.speed?.toFixed(1) ?? "—"} {climateData[waypoint.id].wind.unit}
                                     </p>
                                   </div>
                                   <div>
                                     <p className="text-xs text-muted-foreground">UV Index</p>
                                     <p className="font-semibold">
-                                      {climateData[waypoint.id].atmosphere.uvIndex.toFixed(1)}
+                                      {climateData[waypoint.id].atmosphere.uvIndex?.toFixed(1) ?? "—"}
                                     </p>
                                   </div>
                                 </div>
 
-                                {climateData[waypoint.id].atmosphere.uvIndex > 7 && (
+                                {(climateData[waypoint.id].atmosphere.uvIndex ?? 0) > 7 && (
                                   <div className="p-2 bg-orange-100 dark:bg-orange-900/20 rounded text-xs text-orange-900 dark:text-orange-100 flex items-center gap-2">
                                     <AlertTriangle className="h-4 w-4" />
                                     <span>High UV radiation - use sun protection!</span>
@@ -507,6 +484,21 @@ const TravelResults = () => {
                                     ⚠️ High chance of rain - pack an umbrella!
                                   </div>
                                 )}
+
+                                {climateData[waypoint.id].risk_labels
+                                  .filter(risk => risk.level !== "low")
+                                  .map(risk => (
+                                    <div
+                                      key={risk.risk_type}
+                                      className="p-2 bg-red-100 dark:bg-red-900/20 rounded text-xs text-red-900 dark:text-red-100 flex items-center gap-2"
+                                      title={risk.rule_applied}
+                                    >
+                                      <AlertTriangle className="h-4 w-4" />
+                                      <span>
+                                        {risk.label || riskNames[risk.risk_type] || risk.risk_type}: {risk.probability_percent.toFixed(0)}% of days ({risk.level} risk)
+                                      </span>
+                                    </div>
+                                  ))}
                               </div>
                             ) : (
                               <p className="text-sm text-muted-foreground">
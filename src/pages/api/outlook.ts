@@ -1,116 +1,207 @@
 // BFF endpoint for climate outlook
-// This would typically be implemented as a Next.js API route or Vercel serverless function
-// For now, this file serves as documentation for the API contract
-
-import { getOutlook, OutlookParams } from "@/lib/api/outlook";
-
-export interface OutlookRequest {
-  lat: number;
-  lon: number;
-  date: string;
-  window?: number;
-  units?: "metric" | "imperial";
-  format?: "json" | "csv";
+// Served by the `outlook` Supabase edge function (supabase/functions/outlook),
+// which accepts a JSON POST body or GET query parameters. The contract and
+// handler live in supabase/functions/_shared so the function and the UI share them.
+
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { isOutlookError, isRetryable, OutlookError, outlookError } from "@shared/errors.ts";
+import { BestDatesRequest, CalendarRequest, OutlookBatchRequest, OutlookRequest } from "@shared/validation.ts";
+import {
+  BestDatesResponse,
+  CalendarResponse,
+  OutlookBatchResult,
+  OutlookResponse,
+  parseBestDatesResponse,
+  parseCalendarResponse,
+  parseOutlookResponse,
+} from "@shared/schema.ts";
+
+export type { ErrorCode, FieldError, OutlookError } from "@shared/errors.ts";
+export type {
+  BestDatesRequest,
+  CalendarRequest,
+  OutlookBatchItem,
+  OutlookBatchRequest,
+  OutlookRequest,
+} from "@shared/validation.ts";
+export type {
+  BestDate,
+  BestDatesResponse,
+  CalendarDay,
+  CalendarResponse,
+  ClimateTrend,
+  DailyBreakdown,
+  HourlyProfileRow,
+  OutlookBatchResult,
+  OutlookResponse,
+  RawSample,
+  SpanOutlook,
+  YearAnomaly,
+} from "@shared/schema.ts";
+export type { BestDateCriterion, ResolvedCriterion } from "@shared/criteria.ts";
+export type { TrendEstimate } from "@shared/trend.ts";
+export { defaultCriteria } from "@shared/criteria.ts";
+export { invalidParams, isOutlookError, isRetryable } from "@shared/errors.ts";
+export {
+  DEFAULT_BEST_DATES_LIMIT,
+  MAX_SEASON_DAYS,
+  MAX_SPAN_DAYS,
+  validateBestDatesRequest,
+  validateCalendarRequest,
+  validateDate,
+  validateFormat,
+  validateLat,
+  validateLon,
+  validateOutlookRequest,
+  validateUnits,
+  validateWindow,
+} from "@shared/validation.ts";
+
+export interface RetryOptions {
+  // Retries after the first attempt for rate limits and outages
+  retries?: number;
+  signal?: AbortSignal;
+  onRetry?: (retry: { attempt: number; delayMs: number; error: OutlookError }) => void;
 }
 
-export interface OutlookError {
-  error: {
-    status: number;
-    code: string;
-    message: string;
-  };
-}
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
 
-// Validation functions
-export function validateLat(lat: number): boolean {
-  return !isNaN(lat) && lat >= -90 && lat <= 90;
+// Honour the server's retry_after, else back off exponentially with jitter
+export function retryDelayMs(error: OutlookError, attempt: number): number {
+  const hinted = error.error.retry_after !== undefined
+    ? error.error.retry_after * 1000
+    : BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(MAX_RETRY_DELAY_MS, hinted);
 }
 
-export function validateLon(lon: number): boolean {
-  return !isNaN(lon) && lon >= -180 && lon <= 180;
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
 }
 
-export function validateDate(date: string): boolean {
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!dateRegex.test(date)) return false;
-  const dateObj = new Date(date);
-  return !isNaN(dateObj.getTime());
+async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!isOutlookError(error) || !isRetryable(error) || attempt > retries || options.signal?.aborted) throw error;
+      const delayMs = retryDelayMs(error, attempt);
+      options.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
 }
 
-export function validateWindow(window: number): boolean {
-  return !isNaN(window) && window >= 7 && window <= 30;
+// Map a failed invocation to an envelope, preferring the one the function sent
+async function invocationError(error: Error): Promise<OutlookError> {
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body: unknown = await response.json().catch(() => null);
+    if (isOutlookError(body)) return body;
+
+    const retryAfter = Number(response.headers.get("Retry-After")) || undefined;
+    if (response.status === 429) {
+      return outlookError(429, "UPSTREAM_RATE_LIMITED", "The outlook service is busy.", retryAfter);
+    }
+    if (response.status >= 500) {
+      return outlookError(response.status, "UPSTREAM_UNAVAILABLE", "The outlook service failed to respond.", retryAfter);
+    }
+    return outlookError(response.status, "INTERNAL", error.message);
+  }
+  if (error instanceof FunctionsFetchError) {
+    return outlookError(503, "UPSTREAM_UNAVAILABLE", "Could not reach the outlook service.");
+  }
+  return outlookError(502, "INTERNAL", error.message || "Failed to reach the outlook service.");
 }
 
-export function validateUnits(units: string): units is "metric" | "imperial" {
-  return units === "metric" || units === "imperial";
-}
+async function invokeFunction(name: string, body: object): Promise<unknown> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
 
-// This would be the actual API route handler
-export async function handleOutlookRequest(
-  params: OutlookRequest
-): Promise<any> {
-  // Validate parameters
-  if (!validateLat(params.lat)) {
-    throw {
-      error: {
-        status: 400,
-        code: "INVALID_PARAM",
-        message: "Latitude must be between -90 and 90.",
-      },
-    };
-  }
+  if (error) throw await invocationError(error);
 
-  if (!validateLon(params.lon)) {
-    throw {
-      error: {
-        status: 400,
-        code: "INVALID_PARAM",
-        message: "Longitude must be between -180 and 180.",
-      },
-    };
+  if (!data) {
+    throw outlookError(502, "UPSTREAM_UNAVAILABLE", "No outlook data received.");
   }
 
-  if (!validateDate(params.date)) {
-    throw {
-      error: {
-        status: 400,
-        code: "INVALID_PARAM",
-        message: "Parameter 'date' must be YYYY-MM-DD.",
-      },
-    };
-  }
+  return data;
+}
 
-  if (params.window && !validateWindow(params.window)) {
-    throw {
-      error: {
-        status: 400,
-        code: "INVALID_PARAM",
-        message: "Window must be between 7 and 30 days.",
-      },
-    };
+function parseOrThrow<T>(data: unknown, parse: (payload: unknown) => T): T {
+  try {
+    return parse(data);
+  } catch (parseError) {
+    console.error(parseError, data);
+    throw outlookError(502, "INTERNAL", (parseError as Error).message);
   }
+}
 
-  if (params.units && !validateUnits(params.units)) {
-    throw {
-      error: {
-        status: 400,
-        code: "INVALID_PARAM",
-        message: "Units must be 'metric' or 'imperial'.",
-      },
-    };
-  }
+// Call the outlook endpoint; failures, including payloads that do not match
+// the shared schema, are thrown as an OutlookError envelope. Rate limits and
+// outages are retried with backoff first.
+export async function fetchOutlook(params: OutlookRequest, options?: RetryOptions): Promise<OutlookResponse> {
+  return withRetry(async () => parseOrThrow(await invokeFunction("outlook", params), parseOutlookResponse), options);
+}
 
-  // Call Model API (currently mocked)
-  const outlookParams: OutlookParams = {
-    lat: params.lat,
-    lon: params.lon,
-    date: params.date,
-    window: params.window || 15,
-    units: params.units || "metric",
+// Fetch many outlooks in one call; results are keyed by item id and a
+// malformed item becomes an error entry rather than failing the batch
+export async function fetchOutlookBatch(
+  params: OutlookBatchRequest,
+  options?: RetryOptions
+): Promise<Record<string, OutlookBatchResult>> {
+  const data = (await withRetry(() => invokeFunction("outlook-batch", params), options)) as {
+    results?: Record<string, OutlookBatchResult>;
   };
 
-  const result = await getOutlook(outlookParams);
+  return Object.fromEntries(
+    Object.entries(data.results ?? {}).map(([id, result]): [string, OutlookBatchResult] => {
+      if (!result.ok) return [id, result];
+      try {
+        return [id, { ok: true, data: parseOrThrow(result.data, parseOutlookResponse) }];
+      } catch (error) {
+        return [id, { ok: false, error: (error as OutlookError).error }];
+      }
+    })
+  );
+}
+
+// Rank the dates of a search period by weighted criteria through the
+// `best-dates` function; errors and retries work as for fetchOutlook
+export async function fetchBestDates(params: BestDatesRequest, options?: RetryOptions): Promise<BestDatesResponse> {
+  return withRetry(async () => parseOrThrow(await invokeFunction("best-dates", params), parseBestDatesResponse), options);
+}
+
+// Year-round climatology of one location through the `climate-calendar` function
+export async function fetchClimateCalendar(params: CalendarRequest, options?: RetryOptions): Promise<CalendarResponse> {
+  return withRetry(async () => parseOrThrow(await invokeFunction("climate-calendar", params), parseCalendarResponse), options);
+}
 
-  // Return result (CSV conversion would happen here if format=csv)
-  return result;
+// User-facing text for an error, tailored to its code
+export function describeOutlookError(error: unknown): string {
+  if (!isOutlookError(error)) {
+    return error instanceof Error ? error.message : "An error occurred while fetching forecast data";
+  }
+
+  const { code, message, retry_after } = error.error;
+  const later = retry_after ? ` Please try again in about ${Math.ceil(retry_after / 60)} minute(s).` : " Please try again shortly.";
+  switch (code) {
+    case "INVALID_PARAM":
+      return `Some of the search settings are not valid: ${message} Go back and adjust them.`;
+    case "UPSTREAM_RATE_LIMITED":
+      return `The climate data provider is receiving too many requests right now.${later}`;
+    case "UPSTREAM_UNAVAILABLE":
+      return `The climate data provider is temporarily unavailable.${later}`;
+    case "NO_DATA_IN_RANGE":
+      return `${message} Try another date or a shorter analysis window.`;
+    default:
+      return `Something went wrong while preparing the outlook: ${message}`;
+  }
 }
@@ -0,0 +1,125 @@
+// Best-date finder handler
+//
+// Scores every date of a search period against weighted criteria. Each date
+// pools the ±halfWindow days around it from every archived year, the same
+// sample an outlook for that date uses, and is labelled by the same risk
+// rules. One fetch per year covers the whole period plus the window.
+
+import { calendarOffset, daySample, poolByOffset, SAMPLE_METRICS, sampleYearWindows, toUnits } from "./forecast.ts";
+import { classifyRisks } from "./risk.ts";
+import { defaultCriteria, isCriterion, resolveCriteria, scoreCriteria } from "./criteria.ts";
+import { getProvider, PROVIDER_IDS } from "./providers/index.ts";
+import { gridLabel } from "./cache.ts";
+import { BestDate, BestDatesResponse, parseBestDatesResponse } from "./schema.ts";
+import { invalidParams, outlookError } from "./errors.ts";
+import { BestDatesRequest, DEFAULT_BEST_DATES_LIMIT, spanDays, validateBestDatesRequest } from "./validation.ts";
+import { dayOfYear, DEFAULT_WINDOW, resolveRuleSet } from "./outlook.ts";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Best score first; ties go to the date most likely to meet every criterion,
+// then to the earlier date
+function byScore(a: BestDate, b: BestDate): number {
+  return b.score - a.score || b.all_met_percent - a.all_met_percent || a.date.localeCompare(b.date);
+}
+
+export async function handleBestDatesRequest(params: Record<string, unknown>): Promise<BestDatesResponse> {
+  const request = params as unknown as BestDatesRequest;
+  const errors = validateBestDatesRequest(params);
+
+  const units = request.units ?? "metric";
+  const criteria = request.criteria ?? defaultCriteria(units);
+  if (
+    !Array.isArray(criteria) ||
+    criteria.length === 0 ||
+    !criteria.every(c => isCriterion(c, SAMPLE_METRICS))
+  ) {
+    errors.push({
+      field: "criteria",
+      message:
+        "Criteria must be a non-empty list of {metric, min?, max?, weight?} with at least one bound, " +
+        `a positive weight and metric in ${SAMPLE_METRICS.join(", ")}.`,
+    });
+  } else if (new Set(resolveCriteria(criteria).map(c => c.id)).size !== criteria.length) {
+    errors.push({ field: "criteria", message: "Criterion ids must be unique." });
+  }
+
+  const provider = getProvider(request.provider);
+  if (!provider) {
+    errors.push({
+      field: "provider",
+      message: `Unknown provider '${request.provider}'. Available: ${PROVIDER_IDS.join(", ")}.`,
+    });
+  }
+
+  if (errors.length > 0 || !provider) throw invalidParams(errors);
+
+  const { lat, lon, start_date, end_date } = request;
+  const window = request.window ?? DEFAULT_WINDOW;
+  const halfWindow = Math.floor(window / 2);
+  const periodDays = spanDays(start_date, end_date);
+  const ruleSet = resolveRuleSet(request.rule_set);
+  const resolved = resolveCriteria(criteria);
+
+  console.log(`Scoring ${periodDays} dates from ${start_date} with ${provider.id} for lat=${lat}, lon=${lon}`);
+
+  const { available, cache, warnings, yearlyDays, sampledYears } =
+    await sampleYearWindows(provider, lat, lon, start_date, halfWindow, periodDays);
+
+  // Criteria values in the requested units are computed once per sampled day
+  const entries = yearlyDays.flat().map(day => ({
+    offset: calendarOffset(day, start_date),
+    day,
+    sample: daySample(toUnits(day, units)),
+  }));
+
+  const periodStart = Date.parse(start_date);
+  const days: BestDate[] = poolByOffset(entries, periodDays, halfWindow).map((pooled, idx) => {
+    const date = new Date(periodStart + idx * MS_PER_DAY).toISOString().split("T")[0];
+    const { score, all_met_percent, criteria: results } = scoreCriteria(pooled.map(p => p.sample), resolved);
+    const risks = classifyRisks(pooled.map(p => p.day), units, ruleSet).filter(label => label.level !== "low");
+
+    return { date, doy: dayOfYear(date), score, all_met_percent, criteria: results, risks, samples_n: pooled.length };
+  });
+
+  const unsampled = days.filter(d => d.samples_n === 0).length;
+  if (unsampled > 0) {
+    warnings.push(`${unsampled} date(s) had no historical samples and were left out of the ranking.`);
+  }
+
+  const ranked = days
+    .filter(d => d.samples_n > 0)
+    .sort(byScore)
+    .slice(0, request.limit ?? DEFAULT_BEST_DATES_LIMIT);
+
+  const response = {
+    metadata: {
+      latitude: lat,
+      longitude: lon,
+      start_date,
+      end_date,
+      window_days: window,
+      years_used: sampledYears.length,
+      units,
+      grid_resolution: gridLabel(provider.grid),
+      cache,
+      period: `${sampledYears[0]}–${sampledYears[sampledYears.length - 1]}`,
+      available_period: available,
+      warnings,
+      disclaimer: "Climate-based ranking. Not a short-term forecast.",
+      data_sources: [provider.source],
+      rule_set: { id: ruleSet.id, name: ruleSet.name },
+      generated_at: new Date().toISOString(),
+    },
+    criteria: resolved,
+    days,
+    ranked,
+  };
+
+  // Never send a payload the UI would reject
+  try {
+    return parseBestDatesResponse(response);
+  } catch (error) {
+    throw outlookError(500, "INTERNAL", (error as Error).message);
+  }
+}
@@ -0,0 +1,177 @@
+// Provider response cache
+//
+// Requests are snapped to the provider's grid so every point inside a cell
+// shares one entry, keyed by provider, cell and the date range of a year
+// window. The store is pluggable: a Supabase table when the function has
+// service credentials, otherwise an in-memory map that lives as long as the
+// isolate. CLIMATE_CACHE=supabase|memory|off overrides the choice and
+// CLIMATE_CACHE_TTL_SECONDS the entry lifetime.
+
+import { ClimateProvider, DailyRecord, GridResolution } from "./providers/index.ts";
+
+export type CacheStatus = "hit" | "miss";
+
+export interface CacheStore {
+  get(key: string): Promise<DailyRecord[] | null>;
+  set(key: string, records: DailyRecord[], ttlSeconds: number): Promise<void>;
+}
+
+// A week: archive days settle quickly, but the most recent ones may be revised
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Year windows the in-memory store keeps before evicting the least recently used
+const MEMORY_MAX_ENTRIES = 500;
+
+const CACHE_TABLE = "provider_cache";
+
+// Bump when the way providers derive records changes, so entries computed the
+// old way are no longer read
+const CACHE_VERSION = 3;
+
+export function snapToGrid(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toFixed(4));
+}
+
+export function gridLabel(grid: GridResolution): string {
+  return grid.lat === grid.lon ? `${grid.lat}deg` : `${grid.lat}x${grid.lon}deg`;
+}
+
+export function cacheKey(providerId: string, lat: number, lon: number, startDate: string, endDate: string): string {
+  return `v${CACHE_VERSION}:${providerId}:${lat}:${lon}:${startDate}:${endDate}`;
+}
+
+// Map order doubles as recency: a hit moves its entry to the end, and writes
+// evict expired entries and then the oldest until the store fits
+export function memoryStore(maxEntries: number = MEMORY_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, { records: DailyRecord[]; expiresAt: number }>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.records;
+    },
+    async set(key, records, ttlSeconds) {
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { records, expiresAt: now + ttlSeconds * 1000 });
+      if (entries.size <= maxEntries) return;
+
+      for (const [stored, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(stored);
+      }
+      for (const stored of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(stored);
+      }
+    },
+  };
+}
+
+// Rows of `provider_cache` (see supabase/migrations), read and written
+// through PostgREST with the service role key; a daily job deletes expired rows
+export function supabaseStore(url: string, serviceKey: string): CacheStore {
+  const endpoint = `${url}/rest/v1/${CACHE_TABLE}`;
+  const headers = {
+    apikey: serviceKey,
+    Authorization: `Bearer ${serviceKey}`,
+    "Content-Type": "application/json",
+  };
+
+  return {
+    async get(key) {
+      const query = new URLSearchParams({
+        select: "records",
+        key: `eq.${key}`,
+        expires_at: `gt.${new Date().toISOString()}`,
+      });
+      const response = await fetch(`${endpoint}?${query}`, { headers });
+      if (!response.ok) throw new Error(`Cache read failed: ${response.status} ${response.statusText}`);
+      const rows: { records: DailyRecord[] }[] = await response.json();
+      return rows.length > 0 ? rows[0].records : null;
+    },
+    async set(key, records, ttlSeconds) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { ...headers, Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify({
+          key,
+          records,
+          expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+        }),
+      });
+      if (!response.ok) throw new Error(`Cache write failed: ${response.status} ${response.statusText}`);
+    },
+  };
+}
+
+let defaultStore: CacheStore | null | undefined;
+
+// Resolve the store once per isolate; null disables caching
+export function getCacheStore(): CacheStore | null {
+  if (defaultStore !== undefined) return defaultStore;
+
+  const mode = Deno.env.get("CLIMATE_CACHE");
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (mode === "off") {
+    defaultStore = null;
+  } else if (mode !== "memory" && url && serviceKey) {
+    defaultStore = supabaseStore(url, serviceKey);
+  } else {
+    defaultStore = memoryStore();
+  }
+  return defaultStore;
+}
+
+function cacheTtlSeconds(): number {
+  const ttl = Number(Deno.env.get("CLIMATE_CACHE_TTL_SECONDS"));
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+// JSON has no NaN, so blank provider values come back from the store as null,
+// including inside the hourly arrays
+function revive(value: unknown): unknown {
+  if (value === null) return NaN;
+  if (Array.isArray(value)) return value.map(revive);
+  if (typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, revive(inner)]));
+  }
+  return value;
+}
+
+function reviveRecords(records: DailyRecord[]): DailyRecord[] {
+  return records.map(record => revive(record) as DailyRecord);
+}
+
+// Fetch a date range through the cache. Store failures are logged and
+// treated as a miss so an unavailable cache never fails a request.
+export async function fetchDailyCached(
+  provider: ClimateProvider,
+  lat: number,
+  lon: number,
+  startDate: string,
+  endDate: string,
+  store: CacheStore | null = getCacheStore()
+): Promise<{ records: DailyRecord[]; cache: CacheStatus }> {
+  if (!store) {
+    return { records: await provider.fetchDaily(lat, lon, startDate, endDate), cache: "miss" };
+  }
+
+  const key = cacheKey(provider.id, lat, lon, startDate, endDate);
+  try {
+    const cached = await store.get(key);
+    if (cached) return { records: reviveRecords(cached), cache: "hit" };
+  } catch (error) {
+    console.error(`Cache lookup for ${key} failed:`, error);
+  }
+
+  const records = await provider.fetchDaily(lat, lon, startDate, endDate);
+  await store.set(key, records, cacheTtlSeconds()).catch(error => {
+    console.error(`Cache write for ${key} failed:`, error);
+  });
+  return { records, cache: "miss" };
+}
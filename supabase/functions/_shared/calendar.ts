@@ -0,0 +1,106 @@
+// Climate calendar handler
+//
+// Summarizes every day of the year for one location from the same pooled
+// ±halfWindow samples an outlook uses: the median daily high, the chance of
+// rain and the highest risk level the rule set assigns.
+
+import { calendarOffset, poolByOffset, precipitationProbability, sampleYearWindows } from "./forecast.ts";
+import { percentile } from "./stats.ts";
+import { classifyRisks, RiskLabel, RiskLevel } from "./risk.ts";
+import { fromMetric, roundFor, UnitSystem } from "./units.ts";
+import { getProvider, PROVIDER_IDS } from "./providers/index.ts";
+import { gridLabel } from "./cache.ts";
+import { CalendarDay, CalendarResponse, parseCalendarResponse } from "./schema.ts";
+import { invalidParams, outlookError } from "./errors.ts";
+import { CalendarRequest, validateCalendarRequest } from "./validation.ts";
+import { DEFAULT_WINDOW, resolveRuleSet } from "./outlook.ts";
+
+// Days are laid out on a non-leap year, so Feb 29 has no entry of its own
+const CALENDAR_YEAR = 2001;
+const CALENDAR_DAYS = 365;
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+// The most likely risk at the highest level any risk reaches
+function topRisk(labels: RiskLabel[]): { risk_level: RiskLevel; top_risk: string | null } {
+  const top = [...labels].sort(
+    (a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level] || b.probability_percent - a.probability_percent
+  )[0];
+  if (!top || top.level === "low") return { risk_level: "low", top_risk: null };
+  return { risk_level: top.level, top_risk: top.risk_type };
+}
+
+export async function handleCalendarRequest(params: Record<string, unknown>): Promise<CalendarResponse> {
+  const request = params as unknown as CalendarRequest;
+  const errors = validateCalendarRequest(params);
+
+  const provider = getProvider(request.provider);
+  if (!provider) {
+    errors.push({
+      field: "provider",
+      message: `Unknown provider '${request.provider}'. Available: ${PROVIDER_IDS.join(", ")}.`,
+    });
+  }
+
+  if (errors.length > 0 || !provider) throw invalidParams(errors);
+
+  const { lat, lon } = request;
+  const window = request.window ?? DEFAULT_WINDOW;
+  const halfWindow = Math.floor(window / 2);
+  const units: UnitSystem = request.units ?? "metric";
+  const ruleSet = resolveRuleSet(request.rule_set);
+
+  console.log(`Building climate calendar with ${provider.id} for lat=${lat}, lon=${lon}`);
+
+  const start = `${CALENDAR_YEAR}-01-01`;
+  const { available, cache, warnings, yearlyDays, sampledYears } =
+    await sampleYearWindows(provider, lat, lon, start, halfWindow, CALENDAR_DAYS);
+
+  const aligned = yearlyDays.flat().map(day => ({ ...day, offset: calendarOffset(day, start) }));
+
+  const days: CalendarDay[] = poolByOffset(aligned, CALENDAR_DAYS, halfWindow).map((pooled, idx) => {
+    const highs = pooled.map(d => d.t_max).filter(Number.isFinite).sort((a, b) => a - b);
+    const p50 = percentile(highs, 50);
+
+    return {
+      doy: idx + 1,
+      date: new Date(Date.UTC(CALENDAR_YEAR, 0, idx + 1)).toISOString().slice(5, 10),
+      t_max_p50: Number.isFinite(p50) ? roundFor(fromMetric(p50, "temperature", units), "temperature", units) : null,
+      rain_probability: precipitationProbability(pooled),
+      ...topRisk(classifyRisks(pooled, units, ruleSet)),
+      samples_n: pooled.length,
+    };
+  });
+
+  const unsampled = days.filter(d => d.samples_n === 0).length;
+  if (unsampled > 0) {
+    warnings.push(`${unsampled} day(s) of the year had no historical samples.`);
+  }
+
+  const response = {
+    metadata: {
+      latitude: lat,
+      longitude: lon,
+      window_days: window,
+      years_used: sampledYears.length,
+      units,
+      grid_resolution: gridLabel(provider.grid),
+      cache,
+      period: `${sampledYears[0]}–${sampledYears[sampledYears.length - 1]}`,
+      available_period: available,
+      warnings,
+      disclaimer: "Climate-based calendar. Not a short-term forecast.",
+      data_sources: [provider.source],
+      rule_set: { id: ruleSet.id, name: ruleSet.name },
+      generated_at: new Date().toISOString(),
+    },
+    days,
+  };
+
+  // Never send a payload the UI would reject
+  try {
+    return parseCalendarResponse(response);
+  } catch (error) {
+    throw outlookError(500, "INTERNAL", (error as Error).message);
+  }
+}
@@ -0,0 +1,163 @@
+// Re-express an outlook response in another unit system
+//
+// The web app keeps the response it fetched and converts it for display, so
+// switching units needs no new request. Values are converted from the
+// fetched ones, never from an earlier conversion, to avoid compounding rounding.
+
+import { OutlookResponse } from "./schema.ts";
+import { describeRule } from "./risk.ts";
+import { findPresetRuleSet, RuleSet } from "./risk-rules.ts";
+import { TrendEstimate } from "./trend.ts";
+import {
+  convertSpread,
+  convertThreshold,
+  convertValue,
+  METRIC_QUANTITIES,
+  Quantity,
+  roundFor,
+  unitLabel,
+  UnitSystem,
+} from "./units.ts";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The slope is a change per decade, so it converts like a spread; the
+// significance does not depend on units
+function convertTrend(trend: TrendEstimate, quantity: Quantity, from: UnitSystem, to: UnitSystem): TrendEstimate {
+  const point = (v: number | null) => (v === null ? null : round2(convertValue(v, quantity, from, to)));
+  return {
+    ...trend,
+    slope_per_decade: trend.slope_per_decade === null ? null : round2(convertSpread(trend.slope_per_decade, quantity, from, to)),
+    fitted_start: point(trend.fitted_start),
+    fitted_end: point(trend.fitted_end),
+  };
+}
+
+// `ruleSet` re-describes the risk labels; it defaults to the preset the
+// response names, and labels keep their text when no rule set matches
+export function convertOutlook(response: OutlookResponse, units: UnitSystem, ruleSet?: RuleSet): OutlookResponse {
+  const from = response.metadata.units;
+  if (from === units) return response;
+
+  const value = (v: number, quantity: Quantity) => roundFor(convertValue(v, quantity, from, units), quantity, units);
+  const nullable = (v: number | null, quantity: Quantity) => (v === null ? null : value(v, quantity));
+  const difference = (v: number | null, quantity: Quantity) =>
+    v === null ? null : roundFor(convertSpread(v, quantity, from, units), quantity, units);
+  const rules = ruleSet?.id === response.metadata.rule_set.id ? ruleSet : findPresetRuleSet(response.metadata.rule_set.id);
+  const { forecast } = response;
+
+  return {
+    ...response,
+    metadata: { ...response.metadata, units },
+    forecast: {
+      ...forecast,
+      temperature: {
+        ...forecast.temperature,
+        mean: nullable(forecast.temperature.mean, "temperature"),
+        min: nullable(forecast.temperature.min, "temperature"),
+        max: nullable(forecast.temperature.max, "temperature"),
+        daytime: nullable(forecast.temperature.daytime, "temperature"),
+        nighttime: nullable(forecast.temperature.nighttime, "temperature"),
+        unit: unitLabel("temperature", units),
+      },
+      precipitation: {
+        ...forecast.precipitation,
+        amount: nullable(forecast.precipitation.amount, "precipitation"),
+        rain: nullable(forecast.precipitation.rain, "precipitation"),
+        snow: nullable(forecast.precipitation.snow, "snow"),
+        unit: unitLabel("precipitation", units),
+      },
+      wind: {
+        ...forecast.wind,
+        speed: nullable(forecast.wind.speed, "wind"),
+        unit: unitLabel("wind", units),
+      },
+    },
+    summary: response.summary.map(row => {
+      const quantity = METRIC_QUANTITIES[row.var] ?? "percent";
+      const point = (v: number | null) => (v === null ? null : round2(convertValue(v, quantity, from, units)));
+      return {
+        ...row,
+        unit: unitLabel(quantity, units),
+        mean: point(row.mean),
+        std: row.std === null ? null : round2(convertSpread(row.std, quantity, from, units)),
+        p10: point(row.p10),
+        p25: point(row.p25),
+        p50: point(row.p50),
+        p75: point(row.p75),
+        p90: point(row.p90),
+      };
+    }),
+    probabilities: response.probabilities.map(result => ({
+      ...result,
+      threshold: convertThreshold(result.metric, result.threshold, from, units),
+    })),
+    risk_labels: response.risk_labels.map(label => {
+      const rule = rules?.rules.find(r => r.risk_type === label.risk_type);
+      return rule ? { ...label, rule_applied: describeRule(rule, units) } : label;
+    }),
+    dailyBreakdown: response.dailyBreakdown.map(day => ({
+      ...day,
+      tempMin: nullable(day.tempMin, "temperature"),
+      tempMax: nullable(day.tempMax, "temperature"),
+      precipitation: nullable(day.precipitation, "precipitation"),
+      windSpeed: nullable(day.windSpeed, "wind"),
+    })),
+    hourly_profile: response.hourly_profile.map(row => ({
+      ...row,
+      temp_p10: nullable(row.temp_p10, "temperature"),
+      temp_p50: nullable(row.temp_p50, "temperature"),
+      temp_p90: nullable(row.temp_p90, "temperature"),
+      wind_p50: nullable(row.wind_p50, "wind"),
+    })),
+    trend: {
+      ...response.trend,
+      hot_day_threshold: value(response.trend.hot_day_threshold, "temperature"),
+      years: response.trend.years.map(row => ({
+        ...row,
+        t_max_mean: nullable(row.t_max_mean, "temperature"),
+        precip_total: nullable(row.precip_total, "precipitation"),
+      })),
+      t_max_mean: convertTrend(response.trend.t_max_mean, "temperature", from, units),
+      precip_total: convertTrend(response.trend.precip_total, "precipitation", from, units),
+    },
+    anomaly: response.anomaly && {
+      ...response.anomaly,
+      variables: response.anomaly.variables.map(row => {
+        const quantity = METRIC_QUANTITIES[row.var] ?? "percent";
+        const point = (v: number | null) => (v === null ? null : round2(convertValue(v, quantity, from, units)));
+        return {
+          ...row,
+          unit: unitLabel(quantity, units),
+          value: point(row.value),
+          climatology_p50: point(row.climatology_p50),
+        };
+      }),
+      days: response.anomaly.days.map(day => ({
+        ...day,
+        t_max: nullable(day.t_max, "temperature"),
+        t_min: nullable(day.t_min, "temperature"),
+        precip: nullable(day.precip, "precipitation"),
+        t_max_anomaly: difference(day.t_max_anomaly, "temperature"),
+        t_min_anomaly: difference(day.t_min_anomaly, "temperature"),
+        precip_anomaly: difference(day.precip_anomaly, "precipitation"),
+      })),
+    },
+    raw_sample_snapshot: response.raw_sample_snapshot && response.raw_sample_snapshot.map(sample => ({
+      ...sample,
+      t_mean: nullable(sample.t_mean, "temperature"),
+      t_max: nullable(sample.t_max, "temperature"),
+      t_min: nullable(sample.t_min, "temperature"),
+      dew_point: nullable(sample.dew_point, "temperature"),
+      wind10m: nullable(sample.wind10m, "wind"),
+      precip_mm: nullable(sample.precip_mm, "precipitation"),
+    })),
+    span: response.span && {
+      ...response.span,
+      probabilities: response.span.probabilities.map(result => ({
+        ...result,
+        threshold: convertThreshold(result.metric, result.threshold, from, units),
+      })),
+    },
+  };
+}
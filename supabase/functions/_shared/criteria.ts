@@ -0,0 +1,92 @@
+// Weighted day criteria for the best-date finder
+//
+// A criterion holds when a day's metric lies within [min, max] (either bound
+// may be left open), in the request's units. A date scores the weighted mean
+// of the shares of its pooled sample days meeting each criterion.
+
+export interface BestDateCriterion {
+  id?: string;
+  metric: string;
+  min?: number;
+  max?: number;
+  weight?: number;
+}
+
+// A criterion with its id and weight filled in, as echoed in responses
+export interface ResolvedCriterion extends BestDateCriterion {
+  id: string;
+  weight: number;
+}
+
+export interface CriterionResult {
+  id: string;
+  probability_percent: number;
+}
+
+const DEFAULT_WEIGHT = 1;
+
+// Dry, comfortably warm and calm: what most outdoor events look for
+export function defaultCriteria(units: string): BestDateCriterion[] {
+  return units === "metric"
+    ? [
+        { id: "dry", metric: "precip_mm", max: 1, weight: 1 },
+        { id: "comfortable", metric: "t_max", min: 18, max: 26, weight: 1 },
+        { id: "calm", metric: "wind10m", max: 20, weight: 1 },
+      ]
+    : [
+        { id: "dry", metric: "precip_mm", max: 0.04, weight: 1 },
+        { id: "comfortable", metric: "t_max", min: 64, max: 79, weight: 1 },
+        { id: "calm", metric: "wind10m", max: 12, weight: 1 },
+      ];
+}
+
+const isBound = (value: unknown) => value === undefined || (typeof value === "number" && Number.isFinite(value));
+
+export function isCriterion(criterion: unknown, metrics: string[]): criterion is BestDateCriterion {
+  if (typeof criterion !== "object" || criterion === null) return false;
+  const { id, metric, min, max, weight } = criterion as Record<string, unknown>;
+  return (
+    (id === undefined || (typeof id === "string" && id.length > 0)) &&
+    typeof metric === "string" &&
+    metrics.includes(metric) &&
+    isBound(min) &&
+    isBound(max) &&
+    (min !== undefined || max !== undefined) &&
+    (min === undefined || max === undefined || (min as number) <= (max as number)) &&
+    (weight === undefined || (typeof weight === "number" && Number.isFinite(weight) && weight > 0))
+  );
+}
+
+// Fill in ids and weights so responses can refer to each criterion
+export function resolveCriteria(criteria: BestDateCriterion[]): ResolvedCriterion[] {
+  return criteria.map((c, idx) => ({ ...c, id: c.id ?? `${c.metric}-${idx + 1}`, weight: c.weight ?? DEFAULT_WEIGHT }));
+}
+
+export function meetsCriterion(value: number, criterion: BestDateCriterion): boolean {
+  return (criterion.min === undefined || value >= criterion.min) && (criterion.max === undefined || value <= criterion.max);
+}
+
+// Score one date from its pooled day samples (keyed by metric). Days missing
+// a criterion's metric are left out of that criterion's share.
+export function scoreCriteria(
+  samples: Record<string, number>[],
+  criteria: ResolvedCriterion[]
+): { score: number; all_met_percent: number; criteria: CriterionResult[] } {
+  const share = (hits: number, total: number) => (total > 0 ? Math.round((hits / total) * 1000) / 10 : 0);
+
+  const results = criteria.map(criterion => {
+    const values = samples.map(s => s[criterion.metric]).filter(Number.isFinite);
+    const hits = values.filter(v => meetsCriterion(v, criterion)).length;
+    return { id: criterion.id, probability_percent: share(hits, values.length) };
+  });
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = criteria.reduce((sum, c, idx) => sum + c.weight * results[idx].probability_percent, 0);
+  const allMet = samples.filter(s => criteria.every(c => Number.isFinite(s[c.metric]) && meetsCriterion(s[c.metric], c))).length;
+
+  return {
+    score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 10) / 10 : 0,
+    all_met_percent: share(allMet, samples.length),
+    criteria: results,
+  };
+}
@@ -0,0 +1,63 @@
+// CSV serialization of an outlook response
+//
+// One file with a `[section]` header per block: metadata as key/value pairs,
+// then the summary, probability and risk tables, and for a date-range request
+// the event-span probabilities. Used by the outlook API for `format=csv` and
+// by the Results page download button.
+
+import { OutlookResponse } from "./schema.ts";
+
+export type OutlookCsvInput = Pick<OutlookResponse, "metadata" | "summary" | "probabilities" | "risk_labels" | "span">;
+
+// Quote a cell when it contains a delimiter, quote or line break
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvSection(name: string, columns: string[], rows: unknown[][]): string {
+  const lines = [`[${name}]`, columns.join(","), ...rows.map(row => row.map(csvCell).join(","))];
+  return lines.join("\n") + "\n";
+}
+
+export function toOutlookCsv({ metadata, summary, probabilities, risk_labels, span }: OutlookCsvInput): string {
+  const sections = [
+    csvSection("metadata", ["key", "value"], Object.entries(metadata)),
+    csvSection(
+      "summary",
+      ["var", "unit", "mean", "std", "p10", "p25", "p50", "p75", "p90"],
+      summary.map(row => [row.var, row.unit, row.mean, row.std, row.p10, row.p25, row.p50, row.p75, row.p90])
+    ),
+    csvSection(
+      "probabilities",
+      ["metric", "threshold", "comparator", "probability_percent"],
+      probabilities.map(row => [row.metric, row.threshold, row.comparator, row.probability_percent])
+    ),
+    csvSection(
+      "risk_labels",
+      ["risk_type", "level", "probability_percent", "rule_applied"],
+      risk_labels.map(row => [row.risk_type, row.level, row.probability_percent, row.rule_applied])
+    ),
+  ];
+  if (span) {
+    sections.push(
+      csvSection(
+        "span",
+        ["start_date", "end_date", "days", "samples_n", "metric", "threshold", "comparator", "quantifier", "probability_percent"],
+        span.probabilities.map(row => [
+          span.start_date,
+          span.end_date,
+          span.days,
+          span.samples_n,
+          row.metric,
+          row.threshold,
+          row.comparator,
+          row.quantifier,
+          row.probability_percent,
+        ])
+      )
+    );
+  }
+  return sections.join("\n");
+}
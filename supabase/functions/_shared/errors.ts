@@ -0,0 +1,102 @@
+// Error envelope shared by every outlook endpoint
+//
+//   { "error": { "status": 429, "code": "UPSTREAM_RATE_LIMITED", "message": "…", "retry_after": 60 } }
+//
+// `retry_after` (seconds) is set for transient failures and mirrored in the
+// Retry-After response header; INVALID_PARAM errors add per-field `fields`.
+
+export const ERROR_CODES = [
+  "INVALID_PARAM",
+  "UPSTREAM_RATE_LIMITED",
+  "UPSTREAM_UNAVAILABLE",
+  "NO_DATA_IN_RANGE",
+  "INTERNAL",
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// One rejected request field; INVALID_PARAM errors list every one of them
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface OutlookError {
+  error: {
+    status: number;
+    code: ErrorCode;
+    message: string;
+    retry_after?: number;
+    fields?: FieldError[];
+  };
+}
+
+// Used when an upstream failure carries no Retry-After of its own
+const RATE_LIMIT_RETRY_SECONDS = 60;
+const OUTAGE_RETRY_SECONDS = 30;
+
+export function outlookError(status: number, code: ErrorCode, message: string, retryAfter?: number): OutlookError {
+  return { error: { status, code, message, ...(retryAfter !== undefined ? { retry_after: retryAfter } : {}) } };
+}
+
+export function invalidParams(fields: FieldError[]): OutlookError {
+  const envelope = outlookError(400, "INVALID_PARAM", fields.map(f => f.message).join(" "));
+  return { error: { ...envelope.error, fields } };
+}
+
+export function isOutlookError(value: unknown): value is OutlookError {
+  const error = (value as OutlookError | null)?.error;
+  return typeof error?.status === "number" && typeof error.code === "string";
+}
+
+export function isRetryable(error: OutlookError): boolean {
+  return error.error.code === "UPSTREAM_RATE_LIMITED" || error.error.code === "UPSTREAM_UNAVAILABLE";
+}
+
+// Normalize anything a handler threw into an envelope; unknown failures are INTERNAL
+export function toOutlookError(error: unknown): OutlookError {
+  if (isOutlookError(error)) return error;
+  return outlookError(500, "INTERNAL", error instanceof Error ? error.message : "Unknown error");
+}
+
+export function errorHeaders(error: OutlookError): Record<string, string> {
+  return error.error.retry_after !== undefined ? { "Retry-After": String(error.error.retry_after) } : {};
+}
+
+// Seconds from a Retry-After header, which may be a delay or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// Fetch from a data provider, mapping network failures and error statuses to
+// envelopes so callers can tell rate limits from outages
+export async function fetchUpstream(source: string, url: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    const message = `${source} could not be reached: ${(error as Error).message}`;
+    throw outlookError(503, "UPSTREAM_UNAVAILABLE", message, OUTAGE_RETRY_SECONDS);
+  }
+
+  if (response.ok) return response;
+
+  const errorText = await response.text();
+  console.error(`${source} error response (${response.status}): ${errorText}`);
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+  if (response.status === 429) {
+    const message = `${source} is rate limiting requests.`;
+    throw outlookError(429, "UPSTREAM_RATE_LIMITED", message, retryAfter ?? RATE_LIMIT_RETRY_SECONDS);
+  }
+  if (response.status >= 500) {
+    const message = `${source} is unavailable (${response.status}).`;
+    throw outlookError(503, "UPSTREAM_UNAVAILABLE", message, retryAfter ?? OUTAGE_RETRY_SECONDS);
+  }
+  // Any other rejection means we built a request the provider does not accept
+  throw outlookError(502, "INTERNAL", `${source} rejected the request (${response.status}): ${errorText.slice(0, 200)}`);
+}
@@ -0,0 +1,40 @@
+// deno test --allow-env --allow-read --import-map=supabase/functions/import_map.json supabase/functions/_shared
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildForecast } from "./forecast.ts";
+import { fixtureProvider } from "./providers/fixture.ts";
+import { DEFAULT_RULE_SET } from "./risk-rules.ts";
+import { parseWeatherForecastResponse } from "./schema.ts";
+
+// Keep the run offline whatever cache the environment configures
+Deno.env.set("CLIMATE_CACHE", "off");
+
+Deno.test("buildForecast pools a 7-day window of every fixture year", async () => {
+  const forecast = await buildForecast({
+    lat: 40.7128,
+    lon: -74.006,
+    date: "2026-07-15",
+    window: 7,
+    units: "metric",
+    thresholds: [{ metric: "t_max", comparator: ">=", threshold: 30 }],
+    ruleSet: DEFAULT_RULE_SET,
+    provider: fixtureProvider,
+  });
+
+  // The fixture holds July of 2020–2024
+  assertEquals(forecast.metadata.years_used, 5);
+  assertEquals(forecast.metadata.samples_n, 35);
+  assertEquals(forecast.metadata.period, "2020–2024");
+
+  const tMax = forecast.summary.find(row => row.var === "t_max");
+  assert(tMax?.p10 != null && tMax.p50 != null && tMax.p90 != null);
+  assert(tMax.p10 <= tMax.p50 && tMax.p50 <= tMax.p90);
+
+  const hot = forecast.probabilities.find(p => p.metric === "t_max" && p.comparator === ">=" && p.threshold === 30);
+  assert(hot && hot.probability_percent >= 0 && hot.probability_percent <= 100);
+
+  assertEquals(forecast.risk_labels.length, DEFAULT_RULE_SET.rules.length);
+  assert(forecast.risk_labels.every(label => label.samples_n === 35));
+
+  // The payload is what weather-forecast sends, so it must meet that contract
+  parseWeatherForecastResponse(forecast);
+});
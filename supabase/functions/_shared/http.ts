@@ -0,0 +1,14 @@
+// CORS headers and JSON responses shared by the outlook-family edge functions
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  // Rate-limited errors tell the browser when to retry
+  "Access-Control-Expose-Headers": "retry-after",
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
@@ -0,0 +1,68 @@
+// Derived meteorological indices. All inputs and outputs are metric
+// (°C, %, km/h); the NWS formulas are defined in °F/mph and converted here.
+
+const cToF = (c: number) => c * 9 / 5 + 32;
+const fToC = (f: number) => (f - 32) * 5 / 9;
+const kmhToMph = (kmh: number) => kmh / 1.609344;
+
+// NWS Heat Index: Steadman's simple formula, switching to the Rothfusz
+// regression (with its low/high humidity adjustments) above 80°F
+export function heatIndex(tempC: number, rh: number): number {
+  const t = cToF(tempC);
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((simple + t) / 2 < 80) return fToC(simple);
+
+  let hi =
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh;
+
+  if (rh < 13 && t >= 80 && t <= 112) {
+    hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t >= 80 && t <= 87) {
+    hi += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+
+  return fToC(hi);
+}
+
+// NWS Wind Chill (2001); defined only at or below 50°F with wind above 3 mph,
+// otherwise the air temperature is returned unchanged
+export function windChill(tempC: number, windKmh: number): number {
+  const t = cToF(tempC);
+  const v = kmhToMph(windKmh);
+  if (t > 50 || v <= 3) return tempC;
+  const vp = Math.pow(v, 0.16);
+  return fToC(35.74 + 0.6215 * t - 35.75 * vp + 0.4275 * t * vp);
+}
+
+// Dew point from temperature and relative humidity (Magnus–Tetens)
+export function dewPoint(tempC: number, rh: number): number {
+  const a = 17.625;
+  const b = 243.04;
+  const gamma = Math.log(Math.max(rh, 1) / 100) + (a * tempC) / (b + tempC);
+  return (b * gamma) / (a - gamma);
+}
+
+// Australian BoM apparent temperature (Steadman 1994), including wind
+export function apparentTemperature(tempC: number, rh: number, windKmh: number): number {
+  const vapourPressure = (rh / 100) * 6.105 * Math.exp((17.27 * tempC) / (237.7 + tempC));
+  return tempC + 0.33 * vapourPressure - 0.70 * (windKmh / 3.6) - 4.0;
+}
+
+// Derived daily indices when only daily aggregates are available: heat and
+// feels-like at the daily max, wind chill at the daily min
+export function derivedFromDaily(tMin: number, tMax: number, rh: number, windKmh: number) {
+  return {
+    dew_point: dewPoint((tMin + tMax) / 2, rh),
+    heat_index_max: heatIndex(tMax, rh),
+    wind_chill_min: windChill(tMin, windKmh),
+    apparent_temp_max: apparentTemperature(tMax, rh, windKmh),
+  };
+}
@@ -0,0 +1,168 @@
+// Outlook API handler
+//
+// Validates an OutlookRequest, runs the forecast pipeline and reshapes its
+// result into the shared OutlookResponse schema. Invalid input is thrown as
+// an OutlookError envelope rather than an Error.
+
+import { buildForecast, ForecastParams, SAMPLE_METRICS } from "./forecast.ts";
+import { isProbabilityQuery } from "./probabilities.ts";
+import { DEFAULT_RULE_SET, findPresetRuleSet, RuleSet } from "./risk-rules.ts";
+import { getProvider, PROVIDER_IDS } from "./providers/index.ts";
+import { mapPool } from "./pool.ts";
+import { OutlookBatchResponse, OutlookBatchResult, OutlookResponse, parseOutlookResponse } from "./schema.ts";
+import { invalidParams, outlookError, toOutlookError } from "./errors.ts";
+import {
+  OutlookBatchItem,
+  OutlookBatchRequest,
+  OutlookRequest,
+  spanDays,
+  validateOutlookRequest,
+} from "./validation.ts";
+
+export const DEFAULT_WINDOW = 15;
+
+// Batch limits: items per request and outlooks computed at the same time
+export const MAX_BATCH_ITEMS = 50;
+const BATCH_CONCURRENCY = 4;
+
+const invalidParam = (message: string) => outlookError(400, "INVALID_PARAM", message);
+
+export function dayOfYear(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / 86400000);
+}
+
+// A preset id or an inline rule set, already validated; defaults otherwise
+export function resolveRuleSet(ruleSet: string | RuleSet | undefined): RuleSet {
+  if (typeof ruleSet === "string") return findPresetRuleSet(ruleSet) ?? DEFAULT_RULE_SET;
+  return ruleSet ?? DEFAULT_RULE_SET;
+}
+
+// Validate a request body and resolve its defaults, preset rule set and
+// provider. Every invalid field is reported in one INVALID_PARAM envelope.
+export function resolveForecastParams(
+  params: Record<string, unknown>,
+  defaultWindow: number = DEFAULT_WINDOW
+): ForecastParams {
+  const request = params as unknown as OutlookRequest;
+  const errors = validateOutlookRequest(params);
+
+  const thresholds = request.thresholds ?? [];
+  if (!Array.isArray(thresholds) || !thresholds.every(q => isProbabilityQuery(q, SAMPLE_METRICS))) {
+    errors.push({
+      field: "thresholds",
+      message: `Each threshold must be {metric, comparator, threshold} with metric in ${SAMPLE_METRICS.join(", ")}.`,
+    });
+  }
+
+  const provider = getProvider(request.provider);
+  if (!provider) {
+    errors.push({
+      field: "provider",
+      message: `Unknown provider '${request.provider}'. Available: ${PROVIDER_IDS.join(", ")}.`,
+    });
+  }
+
+  if (errors.length > 0 || !provider) throw invalidParams(errors);
+
+  // A date range runs the pipeline from its first day over the whole span;
+  // validation guarantees either both range ends or a single date
+  const { start_date, end_date } = request;
+  const rangeMode = start_date !== undefined && end_date !== undefined;
+  return {
+    lat: request.lat,
+    lon: request.lon,
+    date: rangeMode ? start_date : request.date as string,
+    span: rangeMode ? spanDays(start_date, end_date) : 1,
+    window: request.window ?? defaultWindow,
+    units: request.units ?? "metric",
+    thresholds,
+    ruleSet: resolveRuleSet(request.rule_set),
+    provider,
+    compareYear: request.compare_year,
+    includeSamples: request.include_samples ?? false,
+  };
+}
+
+export async function handleOutlookRequest(params: OutlookRequest): Promise<OutlookResponse> {
+  const forecastParams = resolveForecastParams({ ...params });
+  const { date, window, units } = forecastParams;
+  const forecast = await buildForecast(forecastParams);
+
+  const response = {
+    metadata: {
+      latitude: Number(params.lat.toFixed(4)),
+      longitude: Number(params.lon.toFixed(4)),
+      date_requested: date,
+      doy: dayOfYear(date),
+      window_days: window,
+      years_used: forecast.metadata.years_used,
+      samples_n: forecast.metadata.samples_n,
+      units,
+      grid_resolution: forecast.metadata.grid_resolution,
+      snap_rounded: forecast.metadata.snap_rounded,
+      cache: forecast.metadata.cache,
+      period: forecast.metadata.period,
+      available_period: forecast.metadata.available_period,
+      warnings: forecast.metadata.warnings,
+      disclaimer: "Climate-based outlook. Not a short-term forecast.",
+      data_sources: forecast.metadata.data_sources,
+      rule_set: forecast.metadata.rule_set,
+      generated_at: forecast.metadata.generatedAt,
+    },
+    forecast: forecast.forecast,
+    summary: forecast.summary,
+    probabilities: forecast.probabilities,
+    risk_labels: forecast.risk_labels,
+    conditions: forecast.conditions,
+    dailyBreakdown: forecast.dailyBreakdown,
+    hourly_profile: forecast.hourly_profile,
+    trend: forecast.trend,
+    anomaly: forecast.anomaly,
+    raw_sample_snapshot: forecast.raw_sample_snapshot,
+    span: forecast.span,
+  };
+
+  // Never send a payload the UI would reject
+  try {
+    return parseOutlookResponse(response);
+  } catch (error) {
+    throw outlookError(500, "INTERNAL", (error as Error).message);
+  }
+}
+
+export async function handleOutlookBatchRequest(params: OutlookBatchRequest): Promise<OutlookBatchResponse> {
+  const { items, units, thresholds, rule_set, provider } = params;
+  const shared = { units, thresholds, rule_set, provider };
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw invalidParam("Parameter 'items' must be a non-empty array.");
+  }
+
+  if (items.length > MAX_BATCH_ITEMS) {
+    throw invalidParam(`A batch may contain at most ${MAX_BATCH_ITEMS} items.`);
+  }
+
+  const ids = items.map(item => item?.id);
+  if (!ids.every(id => typeof id === "string" && id.length > 0)) {
+    throw invalidParam("Every item needs a non-empty string 'id'.");
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw invalidParam("Item ids must be unique.");
+  }
+
+  const runItem = async ({ id, lat, lon, date, window }: OutlookBatchItem): Promise<[string, OutlookBatchResult]> => {
+    try {
+      const data = await handleOutlookRequest({ ...shared, lat, lon, date, window });
+      return [id, { ok: true, data }];
+    } catch (error) {
+      const envelope = toOutlookError(error);
+      if (envelope.error.code === "INTERNAL") console.error(`Batch item ${id} failed:`, error);
+      return [id, { ok: false, error: envelope.error }];
+    }
+  };
+
+  const outcomes = await mapPool(items, BATCH_CONCURRENCY, runItem);
+
+  return { results: Object.fromEntries(outcomes) };
+}
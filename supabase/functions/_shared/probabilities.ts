@@ -0,0 +1,108 @@
+// Empirical exceedance probabilities over pooled climatological samples
+
+export type Comparator = ">" | ">=" | "<" | "<=";
+
+export const COMPARATORS: Comparator[] = [">", ">=", "<", "<="];
+
+export interface ProbabilityQuery {
+  metric: string;
+  comparator: Comparator;
+  threshold: number;
+}
+
+export interface ProbabilityResult extends ProbabilityQuery {
+  probability_percent: number;
+}
+
+// A condition over a multi-day span: met on at least one day, or on every day
+export type Quantifier = "any" | "all";
+
+export interface SpanQuery extends ProbabilityQuery {
+  quantifier: Quantifier;
+}
+
+export interface SpanProbabilityResult extends SpanQuery {
+  probability_percent: number;
+}
+
+export function compare(value: number, comparator: Comparator, threshold: number): boolean {
+  switch (comparator) {
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+  }
+}
+
+export function isProbabilityQuery(query: unknown, metrics: string[]): query is ProbabilityQuery {
+  if (typeof query !== "object" || query === null) return false;
+  const { metric, comparator, threshold } = query as Record<string, unknown>;
+  return (
+    typeof metric === "string" &&
+    metrics.includes(metric) &&
+    COMPARATORS.includes(comparator as Comparator) &&
+    typeof threshold === "number" &&
+    Number.isFinite(threshold)
+  );
+}
+
+// Queries always answered alongside any user-supplied ones
+export function defaultQueries(units: string): ProbabilityQuery[] {
+  return units === "metric"
+    ? [
+        { metric: "precip_mm", comparator: ">=", threshold: 1 },
+        { metric: "t_mean", comparator: ">", threshold: 30 },
+      ]
+    : [
+        { metric: "precip_mm", comparator: ">=", threshold: 0.04 },
+        { metric: "t_mean", comparator: ">", threshold: 86 },
+      ];
+}
+
+// Fraction of sampled days meeting each query, as a percentage
+export function exceedance(
+  samples: Record<string, number[]>,
+  queries: ProbabilityQuery[]
+): ProbabilityResult[] {
+  return queries.map(query => {
+    const values = (samples[query.metric] || []).filter(v => Number.isFinite(v));
+    const hits = values.filter(v => compare(v, query.comparator, query.threshold)).length;
+    const probability_percent = values.length > 0
+      ? Math.round((hits / values.length) * 1000) / 10
+      : 0;
+    return { ...query, probability_percent };
+  });
+}
+
+// Span queries always answered in date-range mode: a very hot day somewhere
+// in the span, and the whole span staying dry
+export function defaultSpanQueries(units: string): SpanQuery[] {
+  return units === "metric"
+    ? [
+        { metric: "t_max", comparator: ">", threshold: 35, quantifier: "any" },
+        { metric: "precip_mm", comparator: "<", threshold: 1, quantifier: "all" },
+      ]
+    : [
+        { metric: "t_max", comparator: ">", threshold: 95, quantifier: "any" },
+        { metric: "precip_mm", comparator: "<", threshold: 0.04, quantifier: "all" },
+      ];
+}
+
+// Fraction of historical spans meeting each query, as a percentage. A span
+// counts only when every one of its days has a value for the metric.
+export function spanExceedance(
+  spans: Record<string, number>[][],
+  queries: SpanQuery[]
+): SpanProbabilityResult[] {
+  return queries.map(query => {
+    const values = spans
+      .map(span => span.map(day => day[query.metric]))
+      .filter(span => span.every(v => Number.isFinite(v)));
+    const meets = (v: number) => compare(v, query.comparator, query.threshold);
+    const hits = values.filter(span => (query.quantifier === "any" ? span.some(meets) : span.every(meets))).length;
+    const probability_percent = values.length > 0
+      ? Math.round((hits / values.length) * 1000) / 10
+      : 0;
+    return { ...query, probability_percent };
+  });
+}
@@ -0,0 +1,46 @@
+import { ClimateProvider, DailyRecord } from "./types.ts";
+import { derivedFromDaily } from "../meteo.ts";
+
+// File-backed provider for offline runs and tests. Serves the same records for
+// every location; point CLIMATE_FIXTURE_PATH at another JSON file of
+// DailyRecord[] to swap the data set.
+const DEFAULT_FIXTURE = new URL("./fixtures/daily-sample.json", import.meta.url);
+
+type FixtureRecord =
+  Omit<DailyRecord, "dew_point" | "heat_index_max" | "wind_chill_min" | "apparent_temp_max"> &
+  Partial<DailyRecord>;
+
+let cached: { path: string; records: FixtureRecord[] } | null = null;
+
+async function loadFixture(): Promise<FixtureRecord[]> {
+  const path = Deno.env.get("CLIMATE_FIXTURE_PATH") || DEFAULT_FIXTURE.href;
+  if (cached?.path !== path) {
+    const source = path.startsWith("file:") ? new URL(path) : path;
+    cached = { path, records: JSON.parse(await Deno.readTextFile(source)) };
+  }
+  return cached.records;
+}
+
+export const fixtureProvider: ClimateProvider = {
+  id: "fixture",
+  source: {
+    name: "Local fixture",
+    version: "1",
+    period: "fixture-defined",
+  },
+  grid: { lat: 0.1, lon: 0.1 },
+
+  // The fixture covers exactly the span of its records
+  async availablePeriod() {
+    const dates = (await loadFixture()).map(r => r.date).sort();
+    return { start: dates[0] ?? "", end: dates[dates.length - 1] ?? "" };
+  },
+
+  async fetchDaily(_lat, _lon, startDate, endDate) {
+    const records = await loadFixture();
+    return records
+      .filter(r => r.date >= startDate && r.date <= endDate)
+      // Fixtures may omit the derived indices; fill them from the daily values
+      .map(r => ({ ...derivedFromDaily(r.t_min, r.t_max, r.rh_mean, r.wind10m), ...r }));
+  },
+};
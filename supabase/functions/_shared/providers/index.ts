@@ -0,0 +1,24 @@
+import { ClimateProvider } from "./types.ts";
+import { openMeteoProvider } from "./open-meteo.ts";
+import { nasaPowerProvider } from "./nasa-power.ts";
+import { fixtureProvider } from "./fixture.ts";
+
+export type { AvailablePeriod, ClimateProvider, DailyRecord, DataSource, GridResolution, HourlyValues } from "./types.ts";
+
+const providers: Record<string, ClimateProvider> = {
+  [openMeteoProvider.id]: openMeteoProvider,
+  [nasaPowerProvider.id]: nasaPowerProvider,
+};
+
+// The fixture serves canned records for any location, so callers can only
+// pick it where the deployment runs on it (CLIMATE_PROVIDER=fixture)
+if (Deno.env.get("CLIMATE_PROVIDER") === fixtureProvider.id) {
+  providers[fixtureProvider.id] = fixtureProvider;
+}
+
+export const PROVIDER_IDS = Object.keys(providers);
+
+// Resolve a provider by id, falling back to CLIMATE_PROVIDER and then Open-Meteo
+export function getProvider(id?: string): ClimateProvider | undefined {
+  return providers[id || Deno.env.get("CLIMATE_PROVIDER") || openMeteoProvider.id];
+}
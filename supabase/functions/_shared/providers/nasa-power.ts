@@ -0,0 +1,113 @@
+import { ClimateProvider, DailyRecord } from "./types.ts";
+import { derivedFromDaily } from "../meteo.ts";
+import { isoDaysAgo } from "./period.ts";
+import { fetchUpstream } from "../errors.ts";
+
+// NASA POWER daily point API — MERRA-2 meteorology at 0.5° × 0.625°
+const NASA_POWER_URL = "https://power.larc.nasa.gov/api/temporal/daily/point";
+
+const PARAMETERS = [
+  "T2M_MAX",
+  "T2M_MIN",
+  "T2M",
+  "T2MDEW",
+  "PRECTOTCORR",
+  "PRECSNOLAND",
+  "RH2M",
+  "WS10M",
+  "CLOUD_AMT",
+  "ALLSKY_SFC_UV_INDEX",
+] as const;
+
+type Parameter = typeof PARAMETERS[number];
+
+// MERRA-2 based daily data from 1981, published about a week behind real time
+const ARCHIVE_START = "1981-01-01";
+const ARCHIVE_LAG_DAYS = 7;
+
+interface NasaPowerResponse {
+  properties: {
+    parameter: Record<Parameter, Record<string, number>>;
+  };
+  header?: {
+    fill_value?: number;
+  };
+}
+
+const compactDate = (date: string) => date.replace(/-/g, "");
+const isoDate = (compact: string) => `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+
+function toDailyRecords(data: NasaPowerResponse): DailyRecord[] {
+  const params = data.properties.parameter;
+  const fill = data.header?.fill_value ?? -999;
+  const value = (param: Parameter, day: string) => {
+    const v = params[param]?.[day];
+    return v === undefined || v === fill ? NaN : v;
+  };
+
+  return Object.keys(params.T2M_MAX)
+    .sort()
+    .map(day => {
+      const tMax = value("T2M_MAX", day);
+      const tMin = value("T2M_MIN", day);
+      const tMean = value("T2M", day);
+      const precip = value("PRECTOTCORR", day);
+      // PRECSNOLAND is water equivalent; 1 mm of water ≈ 0.7 cm of fresh snow
+      const snowWater = value("PRECSNOLAND", day);
+      const rh = value("RH2M", day);
+      const wind = value("WS10M", day) * 3.6;
+      // POWER is daily only, so the indices come from daily extremes
+      const derived = derivedFromDaily(tMin, tMax, rh, wind);
+      const dew = value("T2MDEW", day);
+
+      return {
+        date: isoDate(day),
+        t_min: tMin,
+        t_max: tMax,
+        // POWER has no sub-daily split; bracket the daily mean with the extremes
+        t_day: Number.isNaN(tMean) ? tMax : (tMean + tMax) / 2,
+        t_night: Number.isNaN(tMean) ? tMin : (tMean + tMin) / 2,
+        // Blank values stay NaN, as in every DailyRecord
+        precip_mm: precip,
+        rain_mm: Math.max(0, precip - snowWater),
+        snowfall_cm: snowWater * 0.7,
+        rh_mean: rh,
+        wind10m: wind,
+        cloud_cover: value("CLOUD_AMT", day),
+        uv_index: value("ALLSKY_SFC_UV_INDEX", day),
+        ...derived,
+        dew_point: Number.isNaN(dew) ? derived.dew_point : dew,
+      };
+    });
+}
+
+export const nasaPowerProvider: ClimateProvider = {
+  id: "nasa-power",
+  source: {
+    name: "NASA POWER",
+    version: "v2",
+    period: "1981–present",
+  },
+  grid: { lat: 0.5, lon: 0.625 },
+
+  async availablePeriod() {
+    return { start: ARCHIVE_START, end: isoDaysAgo(ARCHIVE_LAG_DAYS) };
+  },
+
+  async fetchDaily(lat, lon, startDate, endDate) {
+    const apiUrl = new URL(NASA_POWER_URL);
+    apiUrl.searchParams.set("parameters", PARAMETERS.join(","));
+    apiUrl.searchParams.set("community", "RE");
+    apiUrl.searchParams.set("latitude", lat.toString());
+    apiUrl.searchParams.set("longitude", lon.toString());
+    apiUrl.searchParams.set("start", compactDate(startDate));
+    apiUrl.searchParams.set("end", compactDate(endDate));
+    apiUrl.searchParams.set("format", "JSON");
+
+    console.log(`Calling NASA POWER API: ${apiUrl.toString()}`);
+
+    const apiResponse = await fetchUpstream("NASA POWER", apiUrl.toString());
+
+    return toDailyRecords(await apiResponse.json());
+  },
+};
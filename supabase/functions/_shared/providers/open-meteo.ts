@@ -0,0 +1,205 @@
+import { ClimateProvider, DailyRecord, HourlyValues } from "./types.ts";
+import { apparentTemperature, dewPoint, heatIndex, windChill } from "../meteo.ts";
+import { isoDaysAgo } from "./period.ts";
+import { fetchUpstream } from "../errors.ts";
+
+// The historical forecast archive starts in 2016 and trails today by a few days
+const ARCHIVE_START = '2016-01-01';
+const ARCHIVE_LAG_DAYS = 5;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+interface HourlyData {
+  time: number;
+  temperature: number;
+  humidity: number;
+  wind: number;
+  precipitation: number;
+}
+
+interface OpenMeteoResponse {
+  // Offset of the location's timezone; with timezone=auto every timestamp is
+  // local wall-clock time without an offset
+  utc_offset_seconds: number;
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    relative_humidity_2m: number[];
+    wind_speed_10m: number[];
+    precipitation: number[];
+  };
+  daily: {
+    time: string[];
+    rain_sum: number[];
+    snowfall_sum: number[];
+    precipitation_sum: number[];
+    sunrise: string[];
+    sunset: string[];
+    cloud_cover_mean: number[];
+    relative_humidity_2m_mean: number[];
+    wind_speed_10m_mean: number[];
+    uv_index_max: number[];
+  };
+}
+
+// Epoch milliseconds of a local "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM" timestamp.
+// Parsing it as UTC and removing the offset keeps the runtime's own timezone
+// out of the bucketing.
+function localInstant(time: string, utcOffsetSeconds: number): number {
+  const iso = time.length === 10 ? `${time}T00:00` : time;
+  return Date.parse(`${iso}Z`) - utcOffsetSeconds * 1000;
+}
+
+function toDailyRecords(weatherData: OpenMeteoResponse): DailyRecord[] {
+  const offset = weatherData.utc_offset_seconds || 0;
+
+  // Process hourly data
+  const hourlyData: HourlyData[] = weatherData.hourly.time.map((time: string, idx: number) => ({
+    time: localInstant(time, offset),
+    temperature: weatherData.hourly.temperature_2m[idx],
+    humidity: weatherData.hourly.relative_humidity_2m[idx],
+    wind: weatherData.hourly.wind_speed_10m[idx],
+    precipitation: weatherData.hourly.precipitation[idx]
+  }));
+
+  // Process daily data
+  return weatherData.daily.time.map((dayStr: string, idx: number) => {
+    // The location's local day
+    const dayStart = localInstant(dayStr, offset);
+    const dayEnd = dayStart + MS_PER_DAY;
+
+    // Get hourly temperatures for this day
+    const dayHourlyData = hourlyData.filter(h =>
+      h.time >= dayStart && h.time < dayEnd
+    );
+
+    // Blank hours are skipped; a day with no readings stays NaN
+    const measured = dayHourlyData.filter(h => Number.isFinite(h.temperature));
+    const temps = measured.map(h => h.temperature);
+    const Tmin = temps.length > 0 ? Math.min(...temps) : NaN;
+    const Tmax = temps.length > 0 ? Math.max(...temps) : NaN;
+
+    // Parse sunrise and sunset, also local times
+    const sunrise = localInstant(weatherData.daily.sunrise[idx], offset);
+    const sunset = localInstant(weatherData.daily.sunset[idx], offset);
+
+    // Calculate daytime and nighttime average temperatures
+    const sunTemps: number[] = [];
+    const nightTemps: number[] = [];
+
+    measured.forEach(h => {
+      if (h.time >= sunrise && h.time < sunset) {
+        sunTemps.push(h.temperature);
+      } else {
+        nightTemps.push(h.temperature);
+      }
+    });
+
+    const sunTmean = sunTemps.length > 0
+      ? sunTemps.reduce((a, b) => a + b, 0) / sunTemps.length
+      : Tmax;
+    const nightTmean = nightTemps.length > 0
+      ? nightTemps.reduce((a, b) => a + b, 0) / nightTemps.length
+      : Tmin;
+
+    // Derived indices evaluated hour by hour, then reduced to the daily extreme
+    const complete = dayHourlyData.filter(h =>
+      h.temperature !== null && h.humidity !== null && h.wind !== null
+    );
+    const dewPoints = complete.map(h => dewPoint(h.temperature, h.humidity));
+    const heatIndices = complete.map(h => heatIndex(h.temperature, h.humidity));
+    const windChills = complete.map(h => windChill(h.temperature, h.wind));
+    const apparentTemps = complete.map(h => apparentTemperature(h.temperature, h.humidity, h.wind));
+
+    // Readings by local hour for the diurnal profile
+    const hourly: HourlyValues = {
+      temp: Array(24).fill(NaN),
+      precip_mm: Array(24).fill(NaN),
+      wind10m: Array(24).fill(NaN),
+    };
+    dayHourlyData.forEach(h => {
+      const hour = Math.floor((h.time - dayStart) / MS_PER_HOUR);
+      hourly.temp[hour] = h.temperature ?? NaN;
+      hourly.precip_mm[hour] = h.precipitation ?? NaN;
+      hourly.wind10m[hour] = h.wind ?? NaN;
+    });
+
+    return {
+      date: dayStr,
+      t_min: Tmin,
+      t_max: Tmax,
+      t_day: sunTmean,
+      t_night: nightTmean,
+      precip_mm: weatherData.daily.precipitation_sum[idx] ?? NaN,
+      rain_mm: weatherData.daily.rain_sum[idx] ?? NaN,
+      snowfall_cm: weatherData.daily.snowfall_sum[idx] ?? NaN,
+      rh_mean: weatherData.daily.relative_humidity_2m_mean[idx] ?? NaN,
+      wind10m: weatherData.daily.wind_speed_10m_mean[idx] ?? NaN,
+      cloud_cover: weatherData.daily.cloud_cover_mean[idx] ?? NaN,
+      uv_index: weatherData.daily.uv_index_max[idx] ?? NaN,
+      dew_point: complete.length > 0 ? dewPoints.reduce((a, b) => a + b, 0) / dewPoints.length : NaN,
+      heat_index_max: complete.length > 0 ? Math.max(...heatIndices) : NaN,
+      wind_chill_min: complete.length > 0 ? Math.min(...windChills) : NaN,
+      apparent_temp_max: complete.length > 0 ? Math.max(...apparentTemps) : NaN,
+      hourly,
+    };
+  });
+}
+
+export const openMeteoProvider: ClimateProvider = {
+  id: 'open-meteo',
+  source: {
+    name: 'Open-Meteo Historical Forecast API',
+    version: 'v1',
+    period: '2016–present',
+  },
+  // Best-match model output is served on a ~0.1° grid
+  grid: { lat: 0.1, lon: 0.1 },
+
+  async availablePeriod() {
+    return { start: ARCHIVE_START, end: isoDaysAgo(ARCHIVE_LAG_DAYS) };
+  },
+
+  async fetchDaily(lat, lon, startDate, endDate) {
+    // Build Open-Meteo Historical Forecast API URL with comprehensive data
+    const apiUrl = new URL('https://historical-forecast-api.open-meteo.com/v1/forecast');
+    apiUrl.searchParams.set('latitude', lat.toString());
+    apiUrl.searchParams.set('longitude', lon.toString());
+    apiUrl.searchParams.set('start_date', startDate);
+    apiUrl.searchParams.set('end_date', endDate);
+
+    // Hourly data
+    apiUrl.searchParams.set('hourly', [
+      'temperature_2m',
+      'relative_humidity_2m',
+      'wind_speed_10m',
+      'precipitation'
+    ].join(','));
+
+    // Daily data
+    apiUrl.searchParams.set('daily', [
+      'rain_sum',
+      'snowfall_sum',
+      'precipitation_sum',
+      'sunset',
+      'sunrise',
+      'cloud_cover_mean',
+      'relative_humidity_2m_mean',
+      'wind_speed_10m_mean',
+      'uv_index_max'
+    ].join(','));
+
+    // Always fetch metric; callers convert when building the response
+    apiUrl.searchParams.set('temperature_unit', 'celsius');
+    apiUrl.searchParams.set('precipitation_unit', 'mm');
+    apiUrl.searchParams.set('wind_speed_unit', 'kmh');
+    apiUrl.searchParams.set('timezone', 'auto');
+
+    console.log(`Calling Open-Meteo Historical Forecast API: ${apiUrl.toString()}`);
+
+    const apiResponse = await fetchUpstream('Open-Meteo', apiUrl.toString());
+
+    return toDailyRecords(await apiResponse.json());
+  },
+};
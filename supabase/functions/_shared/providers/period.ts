@@ -0,0 +1,4 @@
+// ISO date `days` before today (UTC), for archives that trail real time
+export function isoDaysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
@@ -0,0 +1,57 @@
+// Provider-independent daily climate records
+//
+// Every adapter returns metric values so samples from different sources can be
+// pooled, cached and compared; unit conversion happens once, at the response.
+
+export interface DailyRecord {
+  date: string;         // YYYY-MM-DD in the location's local calendar
+  t_min: number;        // °C
+  t_max: number;        // °C
+  t_day: number;        // °C, mean between sunrise and sunset
+  t_night: number;      // °C, mean outside daylight hours
+  precip_mm: number;    // mm
+  rain_mm: number;      // mm
+  snowfall_cm: number;  // cm
+  rh_mean: number;      // %
+  wind10m: number;      // km/h
+  cloud_cover: number;  // %
+  uv_index: number;
+  dew_point: number;          // °C, daily mean
+  heat_index_max: number;     // °C, NWS Heat Index
+  wind_chill_min: number;     // °C, NWS Wind Chill
+  apparent_temp_max: number;  // °C, Steadman apparent temperature
+  hourly?: HourlyValues;      // only from providers with hourly data
+}
+
+// One value per local hour 0–23; NaN where the provider had no reading
+export interface HourlyValues {
+  temp: number[];       // °C
+  precip_mm: number[];  // mm
+  wind10m: number[];    // km/h
+}
+
+export interface DataSource {
+  name: string;
+  version: string;
+  period: string;
+}
+
+// Native grid spacing in degrees; requests are snapped to its cell centres
+export interface GridResolution {
+  lat: number;
+  lon: number;
+}
+
+// Inclusive ISO date range the provider can currently serve
+export interface AvailablePeriod {
+  start: string;
+  end: string;
+}
+
+export interface ClimateProvider {
+  id: string;
+  source: DataSource;
+  grid: GridResolution;
+  availablePeriod(): Promise<AvailablePeriod>;
+  fetchDaily(lat: number, lon: number, startDate: string, endDate: string): Promise<DailyRecord[]>;
+}
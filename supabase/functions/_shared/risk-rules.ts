@@ -0,0 +1,227 @@
+// Declarative risk rule sets
+//
+// A rule flags a sampled day when its conditions hold (all or any of them).
+// The share of flagged days is the risk probability, and `levels` gives the
+// probability (in percent) at which the risk becomes medium or high.
+//
+// {
+//   "id": "marathon",
+//   "name": "Marathon organizers",
+//   "rules": [{
+//     "risk_type": "very_hot",
+//     "conditions": [{ "metric": "heat_index", "comparator": ">=", "threshold": 28, "unit": "°C" }],
+//     "levels": { "medium": 10, "high": 30 }
+//   }]
+// }
+
+import { Comparator, COMPARATORS } from "./probabilities.ts";
+import { Quantity, quantityOf, SUPPORTED_UNITS } from "./units.ts";
+
+export interface RuleCondition {
+  metric: string;
+  comparator: Comparator;
+  threshold: number;
+  unit: string;
+}
+
+export interface RiskRuleDefinition {
+  risk_type: string;
+  label?: string;
+  match?: "all" | "any";
+  conditions: RuleCondition[];
+  levels: { medium: number; high: number };
+}
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  rules: RiskRuleDefinition[];
+}
+
+// Per-day variables a condition can reference
+export const RULE_METRICS: Record<string, { label: string; quantity: Quantity }> = {
+  t_max: { label: "Max temperature", quantity: "temperature" },
+  t_min: { label: "Min temperature", quantity: "temperature" },
+  t_mean: { label: "Mean temperature", quantity: "temperature" },
+  heat_index: { label: "Heat Index", quantity: "temperature" },
+  wind_chill: { label: "Wind Chill", quantity: "temperature" },
+  dew_point: { label: "Dew point", quantity: "temperature" },
+  apparent_temp: { label: "Apparent temperature", quantity: "temperature" },
+  rh_mean: { label: "Mean humidity", quantity: "percent" },
+  wind10m: { label: "Daily mean wind", quantity: "wind" },
+  precip_mm: { label: "Daily precipitation", quantity: "precipitation" },
+};
+
+const DEFAULT_LEVELS = { medium: 20, high: 50 };
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  id: "default",
+  name: "General public",
+  description: "NWS Heat Index and Wind Chill with heavy rain and strong wind thresholds",
+  rules: [
+    {
+      risk_type: "very_hot",
+      conditions: [{ metric: "heat_index", comparator: ">=", threshold: 40, unit: "°C" }],
+      levels: DEFAULT_LEVELS,
+    },
+    {
+      risk_type: "very_cold",
+      conditions: [{ metric: "wind_chill", comparator: "<=", threshold: -10, unit: "°C" }],
+      levels: DEFAULT_LEVELS,
+    },
+    {
+      risk_type: "very_windy",
+      conditions: [{ metric: "wind10m", comparator: ">=", threshold: 30, unit: "km/h" }],
+      levels: DEFAULT_LEVELS,
+    },
+    {
+      risk_type: "very_wet",
+      conditions: [{ metric: "precip_mm", comparator: ">=", threshold: 10, unit: "mm" }],
+      levels: DEFAULT_LEVELS,
+    },
+    {
+      risk_type: "very_uncomfortable",
+      match: "any",
+      conditions: [
+        { metric: "heat_index", comparator: ">=", threshold: 32, unit: "°C" },
+        { metric: "dew_point", comparator: ">=", threshold: 21, unit: "°C" },
+      ],
+      levels: DEFAULT_LEVELS,
+    },
+  ],
+};
+
+export const PRESET_RULE_SETS: RuleSet[] = [
+  DEFAULT_RULE_SET,
+  {
+    id: "outdoor-work",
+    name: "Outdoor work crews",
+    description: "Lower heat stress and wind limits for sustained physical work and crane operations",
+    rules: [
+      {
+        risk_type: "very_hot",
+        conditions: [{ metric: "heat_index", comparator: ">=", threshold: 32, unit: "°C" }],
+        levels: { medium: 10, high: 30 },
+      },
+      {
+        risk_type: "very_cold",
+        conditions: [{ metric: "wind_chill", comparator: "<=", threshold: -5, unit: "°C" }],
+        levels: { medium: 10, high: 30 },
+      },
+      {
+        risk_type: "very_windy",
+        conditions: [{ metric: "wind10m", comparator: ">=", threshold: 20, unit: "km/h" }],
+        levels: { medium: 10, high: 30 },
+      },
+      {
+        risk_type: "very_wet",
+        conditions: [{ metric: "precip_mm", comparator: ">=", threshold: 5, unit: "mm" }],
+        levels: { medium: 15, high: 40 },
+      },
+      {
+        risk_type: "very_uncomfortable",
+        match: "any",
+        conditions: [
+          { metric: "heat_index", comparator: ">=", threshold: 27, unit: "°C" },
+          { metric: "dew_point", comparator: ">=", threshold: 18, unit: "°C" },
+        ],
+        levels: { medium: 20, high: 50 },
+      },
+    ],
+  },
+  {
+    id: "endurance-event",
+    name: "Endurance events",
+    description: "Race-day heat and humidity limits used by marathon and cycling organizers",
+    rules: [
+      {
+        risk_type: "very_hot",
+        conditions: [{ metric: "t_max", comparator: ">=", threshold: 28, unit: "°C" }],
+        levels: { medium: 10, high: 25 },
+      },
+      {
+        risk_type: "very_cold",
+        conditions: [{ metric: "t_min", comparator: "<=", threshold: 0, unit: "°C" }],
+        levels: { medium: 10, high: 25 },
+      },
+      {
+        risk_type: "very_windy",
+        conditions: [{ metric: "wind10m", comparator: ">=", threshold: 25, unit: "km/h" }],
+        levels: { medium: 15, high: 35 },
+      },
+      {
+        risk_type: "very_wet",
+        conditions: [{ metric: "precip_mm", comparator: ">=", threshold: 5, unit: "mm" }],
+        levels: { medium: 20, high: 45 },
+      },
+      {
+        risk_type: "very_uncomfortable",
+        conditions: [{ metric: "dew_point", comparator: ">=", threshold: 16, unit: "°C" }],
+        levels: { medium: 15, high: 35 },
+      },
+    ],
+  },
+];
+
+export function findPresetRuleSet(id: string): RuleSet | undefined {
+  return PRESET_RULE_SETS.find(rs => rs.id === id);
+}
+
+// Returns a list of problems; an empty list means the rule set is usable
+export function validateRuleSet(input: unknown): string[] {
+  const errors: string[] = [];
+  if (typeof input !== "object" || input === null) return ["Rule set must be an object."];
+
+  const ruleSet = input as Record<string, unknown>;
+  if (typeof ruleSet.id !== "string" || !ruleSet.id) errors.push("Rule set 'id' must be a non-empty string.");
+  if (typeof ruleSet.name !== "string" || !ruleSet.name) errors.push("Rule set 'name' must be a non-empty string.");
+  if (!Array.isArray(ruleSet.rules) || ruleSet.rules.length === 0) {
+    errors.push("Rule set 'rules' must be a non-empty array.");
+    return errors;
+  }
+
+  ruleSet.rules.forEach((rule: Record<string, unknown>, i: number) => {
+    const at = `rules[${i}]`;
+    if (typeof rule?.risk_type !== "string" || !/^[a-z0-9_]+$/.test(rule.risk_type)) {
+      errors.push(`${at}.risk_type must be snake_case.`);
+    }
+    if (rule?.match !== undefined && rule.match !== "all" && rule.match !== "any") {
+      errors.push(`${at}.match must be 'all' or 'any'.`);
+    }
+    const levels = rule?.levels as Record<string, unknown> | undefined;
+    if (
+      typeof levels?.medium !== "number" ||
+      typeof levels?.high !== "number" ||
+      levels.medium < 0 ||
+      levels.high > 100 ||
+      levels.medium > levels.high
+    ) {
+      errors.push(`${at}.levels must be {medium, high} percentages with medium ≤ high.`);
+    }
+    if (!Array.isArray(rule?.conditions) || rule.conditions.length === 0) {
+      errors.push(`${at}.conditions must be a non-empty array.`);
+      return;
+    }
+    rule.conditions.forEach((condition: Record<string, unknown>, j: number) => {
+      const cat = `${at}.conditions[${j}]`;
+      const metric = RULE_METRICS[condition?.metric as string];
+      if (!metric) {
+        errors.push(`${cat}.metric must be one of ${Object.keys(RULE_METRICS).join(", ")}.`);
+      }
+      if (!COMPARATORS.includes(condition?.comparator as Comparator)) {
+        errors.push(`${cat}.comparator must be one of ${COMPARATORS.join(", ")}.`);
+      }
+      if (typeof condition?.threshold !== "number" || !Number.isFinite(condition.threshold)) {
+        errors.push(`${cat}.threshold must be a number.`);
+      }
+      if (!SUPPORTED_UNITS.includes(condition?.unit as string)) {
+        errors.push(`${cat}.unit must be one of ${SUPPORTED_UNITS.join(", ")}.`);
+      } else if (metric && quantityOf(condition.unit as string) !== metric.quantity) {
+        errors.push(`${cat}.unit '${condition.unit}' does not measure ${metric.quantity}.`);
+      }
+    });
+  });
+
+  return errors;
+}
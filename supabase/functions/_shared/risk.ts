@@ -0,0 +1,90 @@
+// Risk classification over pooled daily samples
+//
+// Each rule of the active rule set is evaluated against every sampled day
+// with all of its variables present; the probability is the share of those
+// days that meet it and the level follows from the rule's probability bands.
+
+import { DailyRecord } from "./providers/types.ts";
+import { compare } from "./probabilities.ts";
+import { DEFAULT_RULE_SET, RiskRuleDefinition, RULE_METRICS, RuleCondition, RuleSet } from "./risk-rules.ts";
+import { fromMetric, roundFor, toMetric, unitLabel, UnitSystem } from "./units.ts";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskLabel {
+  risk_type: string;
+  label?: string;
+  level: RiskLevel;
+  probability_percent: number;
+  rule_applied: string;
+  // Days the rule could be judged on; 0 when a variable it needs is missing throughout
+  samples_n: number;
+}
+
+// Every variable a rule condition may reference, in metric units
+export function dayVariables(d: DailyRecord): Record<string, number> {
+  return {
+    t_max: d.t_max,
+    t_min: d.t_min,
+    t_mean: (d.t_min + d.t_max) / 2,
+    heat_index: d.heat_index_max,
+    wind_chill: d.wind_chill_min,
+    dew_point: d.dew_point,
+    apparent_temp: d.apparent_temp_max,
+    rh_mean: d.rh_mean,
+    wind10m: d.wind10m,
+    precip_mm: d.precip_mm,
+  };
+}
+
+export function riskLevel(probability: number, levels: RiskRuleDefinition["levels"]): RiskLevel {
+  if (probability >= levels.high) return "high";
+  if (probability >= levels.medium) return "medium";
+  return "low";
+}
+
+const comparatorSymbols: Record<string, string> = { ">": ">", ">=": "≥", "<": "<", "<=": "≤" };
+
+function describeCondition(condition: RuleCondition, units: UnitSystem): string {
+  const { label, quantity } = RULE_METRICS[condition.metric];
+  const value = fromMetric(toMetric(condition.threshold, condition.unit), quantity, units);
+  const rounded = roundFor(value, quantity, units);
+  const unit = unitLabel(quantity, units);
+  return `${label} ${comparatorSymbols[condition.comparator]} ${rounded}${unit === "°C" || unit === "°F" || unit === "%" ? "" : " "}${unit}`;
+}
+
+export function describeRule(rule: RiskRuleDefinition, units: UnitSystem): string {
+  const joiner = rule.match === "any" ? " or " : " and ";
+  return rule.conditions.map(c => describeCondition(c, units)).join(joiner);
+}
+
+// Evaluate a rule set against metric daily samples; rule text uses `units`
+export function classifyRisks(
+  days: DailyRecord[],
+  units: UnitSystem,
+  ruleSet: RuleSet = DEFAULT_RULE_SET
+): RiskLabel[] {
+  const variables = days.map(dayVariables);
+
+  return ruleSet.rules.map(rule => {
+    const tests = rule.conditions.map(c => (vars: Record<string, number>) =>
+      compare(vars[c.metric], c.comparator, toMetric(c.threshold, c.unit))
+    );
+    const matches = (vars: Record<string, number>) =>
+      rule.match === "any" ? tests.some(test => test(vars)) : tests.every(test => test(vars));
+
+    // A day missing any variable the rule needs can be neither a hit nor a miss
+    const judged = variables.filter(vars => rule.conditions.every(c => Number.isFinite(vars[c.metric])));
+    const hits = judged.filter(matches).length;
+    const probability_percent = judged.length > 0 ? Math.round((hits / judged.length) * 1000) / 10 : 0;
+
+    return {
+      risk_type: rule.risk_type,
+      ...(rule.label ? { label: rule.label } : {}),
+      level: riskLevel(probability_percent, rule.levels),
+      probability_percent,
+      rule_applied: describeRule(rule, units),
+      samples_n: judged.length,
+    };
+  });
+}
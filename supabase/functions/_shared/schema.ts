@@ -0,0 +1,603 @@
+// Runtime schema of the outlook, weather-forecast, best-date and calendar API responses
+//
+// Each function parses its payload before sending it and the UI
+// parses it again on receipt, so both sides agree on one shape. Values a
+// provider may leave blank (UV index, cloud cover, hourly readings) arrive as null.
+//
+// The interfaces are written out rather than inferred because the web app
+// compiles without strictNullChecks, where z.infer makes every field optional.
+
+import { z } from "zod";
+import { SummaryRow } from "./stats.ts";
+import { ProbabilityResult, SpanProbabilityResult } from "./probabilities.ts";
+import { RiskLabel, RiskLevel } from "./risk.ts";
+import { DataSource } from "./providers/types.ts";
+import { OutlookError } from "./errors.ts";
+import { CriterionResult, ResolvedCriterion } from "./criteria.ts";
+import { TrendEstimate } from "./trend.ts";
+
+export interface DailyBreakdown {
+  date: string;
+  tempMin: number | null;
+  tempMax: number | null;
+  precipitation: number | null;
+  windSpeed: number | null;
+  uvIndex: number | null;
+}
+
+// Climatological conditions at one local hour of the day
+export interface HourlyProfileRow {
+  hour: number;
+  temp_p10: number | null;
+  temp_p50: number | null;
+  temp_p90: number | null;
+  precip_probability: number | null;
+  wind_p50: number | null;
+  samples_n: number;
+}
+
+// One archived year of the requested window
+export interface YearlyTrendRow {
+  year: number;
+  t_max_mean: number | null;
+  precip_total: number | null;
+  hot_days: number;
+  samples_n: number;
+}
+
+// How the window has changed across the archive; `hot_days` counts days
+// with a maximum at or above `hot_day_threshold`
+export interface ClimateTrend {
+  method: "theil_sen";
+  hot_day_threshold: number;
+  years: YearlyTrendRow[];
+  t_max_mean: TrendEstimate;
+  precip_total: TrendEstimate;
+  hot_days: TrendEstimate;
+}
+
+// One variable of a past year's window: its window mean, the median of every
+// year's window mean, and the percentage of years below it (ties count half)
+export interface AnomalyVariable {
+  var: string;
+  unit: string;
+  value: number | null;
+  climatology_p50: number | null;
+  percentile_rank: number | null;
+  years_n: number;
+}
+
+// One day of that window against the all-year mean for its position
+export interface AnomalyDay {
+  date: string;
+  offset: number;
+  t_max: number | null;
+  t_min: number | null;
+  precip: number | null;
+  t_max_anomaly: number | null;
+  t_min_anomaly: number | null;
+  precip_anomaly: number | null;
+}
+
+export interface YearAnomaly {
+  year: number;
+  variables: AnomalyVariable[];
+  days: AnomalyDay[];
+}
+
+// One pooled daily sample, in the response's units whatever the field
+// name says (`precip_mm` is in inches for imperial responses)
+export interface RawSample {
+  date_iso: string;
+  t_mean: number | null;
+  t_max: number | null;
+  t_min: number | null;
+  rh_mean: number | null;
+  dew_point: number | null;
+  wind10m: number | null;
+  precip_mm: number | null;
+}
+
+// Probabilities over a whole date-range event, from historical spans of the
+// same length
+export interface SpanOutlook {
+  start_date: string;
+  end_date: string;
+  days: number;
+  samples_n: number;
+  probabilities: SpanProbabilityResult[];
+}
+
+export interface OutlookMetadata {
+  latitude: number;
+  longitude: number;
+  date_requested: string;
+  doy: number;
+  window_days: number;
+  years_used: number;
+  samples_n: number;
+  units: "metric" | "imperial";
+  grid_resolution: string;
+  snap_rounded: boolean;
+  cache: "hit" | "miss";
+  period: string;
+  available_period: { start: string; end: string };
+  warnings: string[];
+  disclaimer: string;
+  data_sources: DataSource[];
+  rule_set: { id: string; name: string };
+  generated_at: string;
+}
+
+// Window averages are null when the provider left a variable blank throughout
+export interface Forecast {
+  temperature: {
+    mean: number | null;
+    min: number | null;
+    max: number | null;
+    daytime: number | null;
+    nighttime: number | null;
+    unit: string;
+    confidence: number;
+  };
+  precipitation: {
+    probability: number;
+    amount: number | null;
+    rain: number | null;
+    snow: number | null;
+    unit: string;
+    confidence: number;
+  };
+  wind: { speed: number | null; unit: string; condition: string };
+  atmosphere: { humidity: number | null; cloudCover: number | null; uvIndex: number | null };
+}
+
+export interface Conditions {
+  outlook: string;
+  precipitationRisk: string;
+  windCondition: string;
+  reliability: string;
+}
+
+export interface OutlookResponse {
+  metadata: OutlookMetadata;
+  forecast: Forecast;
+  summary: SummaryRow[];
+  probabilities: ProbabilityResult[];
+  risk_labels: RiskLabel[];
+  conditions: Conditions;
+  dailyBreakdown: DailyBreakdown[];
+  hourly_profile: HourlyProfileRow[];
+  trend: ClimateTrend;
+  anomaly: YearAnomaly | null;
+  // Present only when the request sets include_samples
+  raw_sample_snapshot: RawSample[] | null;
+  span: SpanOutlook | null;
+}
+
+// A response schema whose parsed type must match its interface, so the two
+// cannot drift apart. Without strictNullChecks zod marks every parsed field
+// optional and no schema would match, so the strict Deno check enforces it.
+type Contract<T> = null extends string ? z.ZodTypeAny : z.ZodType<T>;
+
+export const DataSourceSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  period: z.string(),
+});
+
+export const SummaryRowSchema = z.object({
+  var: z.string(),
+  unit: z.string(),
+  mean: z.number().nullable(),
+  std: z.number().nullable(),
+  p10: z.number().nullable(),
+  p25: z.number().nullable(),
+  p50: z.number().nullable(),
+  p75: z.number().nullable(),
+  p90: z.number().nullable(),
+});
+
+export const ProbabilityResultSchema = z.object({
+  metric: z.string(),
+  comparator: z.enum([">", ">=", "<", "<="]),
+  threshold: z.number(),
+  probability_percent: z.number(),
+});
+
+export const SpanProbabilityResultSchema = ProbabilityResultSchema.extend({
+  quantifier: z.enum(["any", "all"]),
+});
+
+export const SpanOutlookSchema = z.object({
+  start_date: z.string(),
+  end_date: z.string(),
+  days: z.number().int(),
+  samples_n: z.number().int(),
+  probabilities: z.array(SpanProbabilityResultSchema),
+});
+
+export const RiskLabelSchema = z.object({
+  risk_type: z.string(),
+  label: z.string().optional(),
+  level: z.enum(["low", "medium", "high"]),
+  probability_percent: z.number(),
+  rule_applied: z.string(),
+  samples_n: z.number().int(),
+});
+
+export const DailyBreakdownSchema = z.object({
+  date: z.string(),
+  tempMin: z.number().nullable(),
+  tempMax: z.number().nullable(),
+  precipitation: z.number().nullable(),
+  windSpeed: z.number().nullable(),
+  uvIndex: z.number().nullable(),
+});
+
+export const HourlyProfileRowSchema = z.object({
+  hour: z.number().int().min(0).max(23),
+  temp_p10: z.number().nullable(),
+  temp_p50: z.number().nullable(),
+  temp_p90: z.number().nullable(),
+  precip_probability: z.number().nullable(),
+  wind_p50: z.number().nullable(),
+  samples_n: z.number().int(),
+});
+
+export const TrendEstimateSchema = z.object({
+  slope_per_decade: z.number().nullable(),
+  p_value: z.number().nullable(),
+  significant: z.boolean(),
+  start_year: z.number().int().nullable(),
+  end_year: z.number().int().nullable(),
+  fitted_start: z.number().nullable(),
+  fitted_end: z.number().nullable(),
+  years_n: z.number().int(),
+});
+
+export const ClimateTrendSchema = z.object({
+  method: z.literal("theil_sen"),
+  hot_day_threshold: z.number(),
+  years: z.array(
+    z.object({
+      year: z.number().int(),
+      t_max_mean: z.number().nullable(),
+      precip_total: z.number().nullable(),
+      hot_days: z.number().int(),
+      samples_n: z.number().int(),
+    })
+  ),
+  t_max_mean: TrendEstimateSchema,
+  precip_total: TrendEstimateSchema,
+  hot_days: TrendEstimateSchema,
+});
+
+export const YearAnomalySchema = z.object({
+  year: z.number().int(),
+  variables: z.array(
+    z.object({
+      var: z.string(),
+      unit: z.string(),
+      value: z.number().nullable(),
+      climatology_p50: z.number().nullable(),
+      percentile_rank: z.number().nullable(),
+      years_n: z.number().int(),
+    })
+  ),
+  days: z.array(
+    z.object({
+      date: z.string(),
+      offset: z.number().int(),
+      t_max: z.number().nullable(),
+      t_min: z.number().nullable(),
+      precip: z.number().nullable(),
+      t_max_anomaly: z.number().nullable(),
+      t_min_anomaly: z.number().nullable(),
+      precip_anomaly: z.number().nullable(),
+    })
+  ),
+});
+
+export const RawSampleSchema = z.object({
+  date_iso: z.string(),
+  t_mean: z.number().nullable(),
+  t_max: z.number().nullable(),
+  t_min: z.number().nullable(),
+  rh_mean: z.number().nullable(),
+  dew_point: z.number().nullable(),
+  wind10m: z.number().nullable(),
+  precip_mm: z.number().nullable(),
+});
+
+export const OutlookMetadataSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  date_requested: z.string(),
+  doy: z.number().int(),
+  window_days: z.number().int(),
+  years_used: z.number().int(),
+  samples_n: z.number().int(),
+  units: z.enum(["metric", "imperial"]),
+  grid_resolution: z.string(),
+  snap_rounded: z.boolean(),
+  cache: z.enum(["hit", "miss"]),
+  period: z.string(),
+  available_period: z.object({ start: z.string(), end: z.string() }),
+  warnings: z.array(z.string()),
+  disclaimer: z.string(),
+  data_sources: z.array(DataSourceSchema),
+  rule_set: z.object({ id: z.string(), name: z.string() }),
+  generated_at: z.string(),
+});
+
+export const ForecastSchema = z.object({
+  temperature: z.object({
+    mean: z.number().nullable(),
+    min: z.number().nullable(),
+    max: z.number().nullable(),
+    daytime: z.number().nullable(),
+    nighttime: z.number().nullable(),
+    unit: z.string(),
+    confidence: z.number(),
+  }),
+  precipitation: z.object({
+    probability: z.number(),
+    amount: z.number().nullable(),
+    rain: z.number().nullable(),
+    snow: z.number().nullable(),
+    unit: z.string(),
+    confidence: z.number(),
+  }),
+  wind: z.object({
+    speed: z.number().nullable(),
+    unit: z.string(),
+    condition: z.string(),
+  }),
+  atmosphere: z.object({
+    humidity: z.number().nullable(),
+    cloudCover: z.number().nullable(),
+    uvIndex: z.number().nullable(),
+  }),
+});
+
+export const ConditionsSchema = z.object({
+  outlook: z.string(),
+  precipitationRisk: z.string(),
+  windCondition: z.string(),
+  reliability: z.string(),
+});
+
+// Everything after the metadata, shared with the legacy weather-forecast payload
+const outlookBodyShape = {
+  forecast: ForecastSchema,
+  summary: z.array(SummaryRowSchema),
+  probabilities: z.array(ProbabilityResultSchema),
+  risk_labels: z.array(RiskLabelSchema),
+  conditions: ConditionsSchema,
+  dailyBreakdown: z.array(DailyBreakdownSchema),
+  hourly_profile: z.array(HourlyProfileRowSchema),
+  trend: ClimateTrendSchema,
+  anomaly: YearAnomalySchema.nullable(),
+  raw_sample_snapshot: z.array(RawSampleSchema).nullable(),
+  span: SpanOutlookSchema.nullable(),
+};
+
+export const OutlookResponseSchema: Contract<OutlookResponse> = z.object({
+  metadata: OutlookMetadataSchema,
+  ...outlookBodyShape,
+});
+
+// Metadata of the legacy weather-forecast endpoint, which returns the
+// pipeline's own shape rather than the outlook API's
+export interface ForecastMetadata {
+  location: { latitude: number; longitude: number };
+  grid_cell: { latitude: number; longitude: number };
+  grid_resolution: string;
+  snap_rounded: boolean;
+  cache: "hit" | "miss";
+  date: string;
+  window: number;
+  units: "metric" | "imperial";
+  model: string;
+  dataSource: string;
+  data_sources: DataSource[];
+  rule_set: { id: string; name: string };
+  years_used: number;
+  samples_n: number;
+  period: string;
+  available_period: { start: string; end: string };
+  warnings: string[];
+  generatedAt: string;
+}
+
+export interface WeatherForecastResponse extends Omit<OutlookResponse, "metadata"> {
+  metadata: ForecastMetadata;
+}
+
+const CoordinatesSchema = z.object({ latitude: z.number(), longitude: z.number() });
+
+export const WeatherForecastResponseSchema: Contract<WeatherForecastResponse> = z.object({
+  metadata: z.object({
+    location: CoordinatesSchema,
+    grid_cell: CoordinatesSchema,
+    grid_resolution: z.string(),
+    snap_rounded: z.boolean(),
+    cache: z.enum(["hit", "miss"]),
+    date: z.string(),
+    window: z.number().int(),
+    units: z.enum(["metric", "imperial"]),
+    model: z.string(),
+    dataSource: z.string(),
+    data_sources: z.array(DataSourceSchema),
+    rule_set: z.object({ id: z.string(), name: z.string() }),
+    years_used: z.number().int(),
+    samples_n: z.number().int(),
+    period: z.string(),
+    available_period: z.object({ start: z.string(), end: z.string() }),
+    warnings: z.array(z.string()),
+    generatedAt: z.string(),
+  }),
+  ...outlookBodyShape,
+});
+
+// Batch results keyed by item id; a failed item carries its own error in
+// place of `data`
+export interface OutlookBatchResult {
+  ok: boolean;
+  data?: OutlookResponse;
+  error?: OutlookError["error"];
+}
+
+export interface OutlookBatchResponse {
+  results: Record<string, OutlookBatchResult>;
+}
+
+// One candidate date of a best-date search. `risks` keeps only the risk
+// labels at medium or high level.
+export interface BestDate {
+  date: string;
+  doy: number;
+  score: number;
+  all_met_percent: number;
+  criteria: CriterionResult[];
+  risks: RiskLabel[];
+  samples_n: number;
+}
+
+// Metadata of responses that pool samples around many dates at once
+export interface ClimatologyMetadata {
+  latitude: number;
+  longitude: number;
+  window_days: number;
+  years_used: number;
+  units: "metric" | "imperial";
+  grid_resolution: string;
+  cache: "hit" | "miss";
+  period: string;
+  available_period: { start: string; end: string };
+  warnings: string[];
+  disclaimer: string;
+  data_sources: DataSource[];
+  rule_set: { id: string; name: string };
+  generated_at: string;
+}
+
+export interface BestDatesMetadata extends ClimatologyMetadata {
+  start_date: string;
+  end_date: string;
+}
+
+// Every date of the search period in calendar order, and the best of them by score
+export interface BestDatesResponse {
+  metadata: BestDatesMetadata;
+  criteria: ResolvedCriterion[];
+  days: BestDate[];
+  ranked: BestDate[];
+}
+
+export const ResolvedCriterionSchema = z.object({
+  id: z.string(),
+  metric: z.string(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  weight: z.number(),
+});
+
+export const BestDateSchema = z.object({
+  date: z.string(),
+  doy: z.number().int(),
+  score: z.number(),
+  all_met_percent: z.number(),
+  criteria: z.array(z.object({ id: z.string(), probability_percent: z.number() })),
+  risks: z.array(RiskLabelSchema),
+  samples_n: z.number().int(),
+});
+
+export const ClimatologyMetadataSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  window_days: z.number().int(),
+  years_used: z.number().int(),
+  units: z.enum(["metric", "imperial"]),
+  grid_resolution: z.string(),
+  cache: z.enum(["hit", "miss"]),
+  period: z.string(),
+  available_period: z.object({ start: z.string(), end: z.string() }),
+  warnings: z.array(z.string()),
+  disclaimer: z.string(),
+  data_sources: z.array(DataSourceSchema),
+  rule_set: z.object({ id: z.string(), name: z.string() }),
+  generated_at: z.string(),
+});
+
+export const BestDatesMetadataSchema = ClimatologyMetadataSchema.extend({
+  start_date: z.string(),
+  end_date: z.string(),
+});
+
+export const BestDatesResponseSchema: Contract<BestDatesResponse> = z.object({
+  metadata: BestDatesMetadataSchema,
+  criteria: z.array(ResolvedCriterionSchema),
+  days: z.array(BestDateSchema),
+  ranked: z.array(BestDateSchema),
+});
+
+// Climatology of one day of the year. `top_risk` is the most likely risk
+// at the highest level reached, or null when every risk is low.
+export interface CalendarDay {
+  doy: number;
+  date: string;
+  t_max_p50: number | null;
+  rain_probability: number;
+  risk_level: RiskLevel;
+  top_risk: string | null;
+  samples_n: number;
+}
+
+// Every day of a non-leap year in order; `date` is MM-DD
+export interface CalendarResponse {
+  metadata: ClimatologyMetadata;
+  days: CalendarDay[];
+}
+
+export const CalendarDaySchema = z.object({
+  doy: z.number().int().min(1).max(365),
+  date: z.string().regex(/^\d{2}-\d{2}$/),
+  t_max_p50: z.number().nullable(),
+  rain_probability: z.number(),
+  risk_level: z.enum(["low", "medium", "high"]),
+  top_risk: z.string().nullable(),
+  samples_n: z.number().int(),
+});
+
+export const CalendarResponseSchema: Contract<CalendarResponse> = z.object({
+  metadata: ClimatologyMetadataSchema,
+  days: z.array(CalendarDaySchema),
+});
+
+// Parse a payload, listing the first few offending fields in the error message
+function parseWith<T>(schema: z.ZodType<T>, payload: unknown, name: string): T {
+  const result = schema.safeParse(payload);
+  if (result.success) return result.data;
+  const problems = result.error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  throw new Error(`Malformed ${name} response — ${problems.join("; ")}`);
+}
+
+export function parseOutlookResponse(payload: unknown): OutlookResponse {
+  return parseWith(OutlookResponseSchema, payload, "outlook");
+}
+
+export function parseWeatherForecastResponse(payload: unknown): WeatherForecastResponse {
+  return parseWith(WeatherForecastResponseSchema, payload, "weather-forecast");
+}
+
+export function parseBestDatesResponse(payload: unknown): BestDatesResponse {
+  return parseWith(BestDatesResponseSchema, payload, "best-dates");
+}
+
+export function parseCalendarResponse(payload: unknown): CalendarResponse {
+  return parseWith(CalendarResponseSchema, payload, "calendar");
+}
@@ -0,0 +1,60 @@
+// Empirical statistics over pooled climatological samples
+
+// Statistics are null when a variable has no finite samples, as when a
+// provider leaves it blank for the whole window
+export interface SummaryRow {
+  var: string;
+  unit: string;
+  mean: number | null;
+  std: number | null;
+  p10: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// Sample standard deviation (n - 1 denominator)
+export function std(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mu = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - mu) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// Percentile with linear interpolation between closest ranks; `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function summarize(variable: string, unit: string, values: number[]): SummaryRow {
+  const finite = values.filter(v => Number.isFinite(v));
+  const sorted = [...finite].sort((a, b) => a - b);
+
+  if (finite.length === 0) {
+    return { var: variable, unit, mean: null, std: null, p10: null, p25: null, p50: null, p75: null, p90: null };
+  }
+
+  return {
+    var: variable,
+    unit,
+    mean: round2(mean(finite)),
+    std: round2(std(finite)),
+    p10: round2(percentile(sorted, 10)),
+    p25: round2(percentile(sorted, 25)),
+    p50: round2(percentile(sorted, 50)),
+    p75: round2(percentile(sorted, 75)),
+    p90: round2(percentile(sorted, 90)),
+  };
+}
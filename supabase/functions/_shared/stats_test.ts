@@ -0,0 +1,27 @@
+// deno test --allow-env --allow-read --import-map=supabase/functions/import_map.json supabase/functions/_shared
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { percentile, std, summarize } from "./stats.ts";
+
+Deno.test("percentile interpolates linearly between ranks", () => {
+  assertEquals(percentile([1, 2, 3, 4], 25), 1.75);
+  assertEquals(percentile([1, 2, 3, 4], 50), 2.5);
+  assertEquals(percentile([10, 20, 30, 40, 50], 90), 46);
+  assertEquals(percentile([10, 20, 30, 40, 50], 0), 10);
+  assertEquals(percentile([10, 20, 30, 40, 50], 100), 50);
+  assertEquals(percentile([7], 10), 7);
+  assert(Number.isNaN(percentile([], 50)));
+});
+
+Deno.test("std uses the sample (n - 1) denominator", () => {
+  // Squared deviations from the mean of 5 sum to 32
+  assert(Math.abs(std([2, 4, 4, 4, 5, 5, 7, 9]) - Math.sqrt(32 / 7)) < 1e-12);
+  assertEquals(std([3]), 0);
+});
+
+Deno.test("summarize skips blank samples and reports null without any", () => {
+  const row = summarize("t_max", "°C", [30, NaN, 10, 20, NaN, 40]);
+  assertEquals(row.mean, 25);
+  assertEquals(row.p50, 25);
+  assertEquals(row.p10, 13);
+  assertEquals(summarize("wind10m", "km/h", [NaN, NaN]).p50, null);
+});
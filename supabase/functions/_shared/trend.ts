@@ -0,0 +1,100 @@
+// Year-over-year trend of a climatological window
+//
+// The slope is the Theil–Sen estimator (median of pairwise slopes), which a
+// few unusual years cannot drag around, and its significance comes from the
+// Mann–Kendall test with the normal approximation and tie correction.
+
+export interface TrendEstimate {
+  // Change per decade, in the unit of the series
+  slope_per_decade: number | null;
+  // Two-sided Mann–Kendall p-value
+  p_value: number | null;
+  significant: boolean;
+  // The fitted line at the first and last year of the series
+  start_year: number | null;
+  end_year: number | null;
+  fitted_start: number | null;
+  fitted_end: number | null;
+  years_n: number;
+}
+
+// Fewer years than this give no meaningful trend
+export const MIN_TREND_YEARS = 8;
+
+export const TREND_SIGNIFICANCE = 0.05;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Abramowitz–Stegun 7.1.26; accurate to about 1.5e-7
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const y = 1 - poly * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+}
+
+// Two-sided p-value of the Mann–Kendall S statistic for `values` in time order
+export function mannKendall(values: number[]): number {
+  const n = values.length;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) s += Math.sign(values[j] - values[i]);
+  }
+
+  const ties = new Map<number, number>();
+  values.forEach(v => ties.set(v, (ties.get(v) ?? 0) + 1));
+  const tieTerm = [...ties.values()].reduce((sum, t) => sum + t * (t - 1) * (2 * t + 5), 0);
+  const variance = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+  if (variance <= 0) return 1;
+
+  const z = s > 0 ? (s - 1) / Math.sqrt(variance) : s < 0 ? (s + 1) / Math.sqrt(variance) : 0;
+  return 1 - erf(Math.abs(z) / Math.SQRT2);
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Theil–Sen trend of (year, value) points; years without a value are skipped
+export function theilSenTrend(points: { year: number; value: number | null }[]): TrendEstimate {
+  const series = points
+    .filter((p): p is { year: number; value: number } => p.value !== null && Number.isFinite(p.value))
+    .sort((a, b) => a.year - b.year);
+
+  if (series.length < MIN_TREND_YEARS) {
+    return {
+      slope_per_decade: null,
+      p_value: null,
+      significant: false,
+      start_year: null,
+      end_year: null,
+      fitted_start: null,
+      fitted_end: null,
+      years_n: series.length,
+    };
+  }
+
+  const slopes: number[] = [];
+  for (let i = 0; i < series.length - 1; i++) {
+    for (let j = i + 1; j < series.length; j++) {
+      slopes.push((series[j].value - series[i].value) / (series[j].year - series[i].year));
+    }
+  }
+  const slope = median(slopes);
+  // Conover's intercept: the line passes through the median year and value
+  const intercept = median(series.map(p => p.value)) - slope * median(series.map(p => p.year));
+  const pValue = mannKendall(series.map(p => p.value));
+
+  return {
+    slope_per_decade: round(slope * 10, 2),
+    p_value: round(pValue, 4),
+    significant: pValue < TREND_SIGNIFICANCE,
+    start_year: series[0].year,
+    end_year: series[series.length - 1].year,
+    fitted_start: round(intercept + slope * series[0].year, 2),
+    fitted_end: round(intercept + slope * series[series.length - 1].year, 2),
+    years_n: series.length,
+  };
+}
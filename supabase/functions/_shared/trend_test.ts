@@ -0,0 +1,42 @@
+// deno test --allow-env --allow-read --import-map=supabase/functions/import_map.json supabase/functions/_shared
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { mannKendall, MIN_TREND_YEARS, theilSenTrend, TREND_SIGNIFICANCE } from "./trend.ts";
+
+const years = (values: (number | null)[]) => values.map((value, idx) => ({ year: 2000 + idx, value }));
+
+Deno.test("mannKendall finds a monotone series significant", () => {
+  const p = mannKendall([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  // S = 45, Var(S) = 125, z = 44 / √125
+  assert(p < TREND_SIGNIFICANCE);
+  assert(Math.abs(p - 8.3e-5) < 1e-5);
+  assertEquals(mannKendall([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]), p);
+});
+
+Deno.test("mannKendall gives p = 1 for a constant series", () => {
+  assertEquals(mannKendall([4, 4, 4, 4, 4, 4, 4, 4]), 1);
+});
+
+Deno.test("theilSenTrend recovers the slope of a straight line", () => {
+  const trend = theilSenTrend(years([1, 3, 5, 7, 9, 11, 13, 15, 17, 19]));
+  assertEquals(trend.slope_per_decade, 20);
+  assertEquals(trend.start_year, 2000);
+  assertEquals(trend.end_year, 2009);
+  assertEquals(trend.fitted_start, 1);
+  assertEquals(trend.fitted_end, 19);
+  assert(trend.significant);
+});
+
+Deno.test("theilSenTrend needs MIN_TREND_YEARS years with a value", () => {
+  const short = [...Array(MIN_TREND_YEARS - 1).keys()].map(Number);
+  const trend = theilSenTrend(years([...short, null, NaN]));
+  assertEquals(trend, {
+    slope_per_decade: null,
+    p_value: null,
+    significant: false,
+    start_year: null,
+    end_year: null,
+    fitted_start: null,
+    fitted_end: null,
+    years_n: MIN_TREND_YEARS - 1,
+  });
+});
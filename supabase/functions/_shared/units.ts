@@ -0,0 +1,108 @@
+// Unit handling. Samples are stored metric (°C, km/h, mm, cm of snow, %);
+// values are converted only when shown to a user or read from user-supplied
+// input. The edge functions and the web app both convert through this module.
+
+export type UnitSystem = "metric" | "imperial";
+
+export type Quantity = "temperature" | "wind" | "precipitation" | "snow" | "percent";
+
+const UNIT_QUANTITY: Record<string, Quantity> = {
+  "°C": "temperature",
+  "°F": "temperature",
+  "km/h": "wind",
+  "m/s": "wind",
+  "mph": "wind",
+  "mm": "precipitation",
+  "in": "precipitation",
+  "inch": "precipitation",
+  "%": "percent",
+};
+
+export const SUPPORTED_UNITS = Object.keys(UNIT_QUANTITY);
+
+// Quantity measured by each sampled metric
+export const METRIC_QUANTITIES: Record<string, Quantity> = {
+  t_mean: "temperature",
+  t_max: "temperature",
+  t_min: "temperature",
+  rh_mean: "percent",
+  dew_point: "temperature",
+  heat_index_max: "temperature",
+  wind_chill_min: "temperature",
+  apparent_temp_max: "temperature",
+  wind10m: "wind",
+  precip_mm: "precipitation",
+};
+
+export function quantityOf(unit: string): Quantity | undefined {
+  return UNIT_QUANTITY[unit];
+}
+
+// Convert a value expressed in `unit` to the metric base unit of its quantity
+export function toMetric(value: number, unit: string): number {
+  switch (unit) {
+    case "°F": return (value - 32) * 5 / 9;
+    case "m/s": return value * 3.6;
+    case "mph": return value * 1.609344;
+    case "in":
+    case "inch": return value * 25.4;
+    default: return value;
+  }
+}
+
+// Convert a metric base value to the requested unit system
+export function fromMetric(value: number, quantity: Quantity, units: UnitSystem): number {
+  if (units === "metric") return value;
+  switch (quantity) {
+    case "temperature": return value * 9 / 5 + 32;
+    case "wind": return value / 1.609344;
+    case "precipitation": return value / 25.4;
+    case "snow": return value / 2.54;
+    default: return value;
+  }
+}
+
+// Inverse of fromMetric
+export function toMetricValue(value: number, quantity: Quantity, units: UnitSystem): number {
+  if (units === "metric") return value;
+  switch (quantity) {
+    case "temperature": return (value - 32) * 5 / 9;
+    case "wind": return value * 1.609344;
+    case "precipitation": return value * 25.4;
+    case "snow": return value * 2.54;
+    default: return value;
+  }
+}
+
+export function convertValue(value: number, quantity: Quantity, from: UnitSystem, to: UnitSystem): number {
+  if (from === to) return value;
+  return fromMetric(toMetricValue(value, quantity, from), quantity, to);
+}
+
+// Convert a difference such as a standard deviation, which has no offset
+export function convertSpread(value: number, quantity: Quantity, from: UnitSystem, to: UnitSystem): number {
+  return convertValue(value, quantity, from, to) - convertValue(0, quantity, from, to);
+}
+
+// Decimals worth showing: imperial rainfall needs hundredths of an inch
+export function roundFor(value: number, quantity: Quantity, units: UnitSystem): number {
+  const factor = quantity === "precipitation" && units === "imperial" ? 100 : 10;
+  return Math.round(value * factor) / factor;
+}
+
+// Convert a probability threshold on a sampled metric between unit systems
+export function convertThreshold(metric: string, value: number, from: UnitSystem, to: UnitSystem): number {
+  if (from === to) return value;
+  const quantity = METRIC_QUANTITIES[metric] ?? "percent";
+  return Math.round(convertValue(value, quantity, from, to) * 100) / 100;
+}
+
+export function unitLabel(quantity: Quantity, units: UnitSystem): string {
+  switch (quantity) {
+    case "temperature": return units === "metric" ? "°C" : "°F";
+    case "wind": return units === "metric" ? "km/h" : "mph";
+    case "precipitation": return units === "metric" ? "mm" : "in";
+    case "snow": return units === "metric" ? "cm" : "in";
+    default: return "%";
+  }
+}
@@ -0,0 +1,219 @@
+// Request contract of the outlook API: parameters and the validators both
+// the edge functions and the UI apply to user input. Errors use the envelope
+// in errors.ts.
+
+import { FieldError } from "./errors.ts";
+import { BestDateCriterion } from "./criteria.ts";
+import { ProbabilityQuery } from "./probabilities.ts";
+import { findPresetRuleSet, RuleSet, validateRuleSet } from "./risk-rules.ts";
+import { UnitSystem } from "./units.ts";
+
+// A single `date`, or an event from `start_date` to `end_date` inclusive
+export interface OutlookRequest {
+  lat: number;
+  lon: number;
+  date?: string;
+  start_date?: string;
+  end_date?: string;
+  window?: number;
+  units?: UnitSystem;
+  format?: "json" | "csv";
+  thresholds?: ProbabilityQuery[];
+  rule_set?: string | RuleSet;
+  provider?: string;
+  // A past year whose window is set against the climatology
+  compare_year?: number;
+  // Return every pooled daily sample as `raw_sample_snapshot`
+  include_samples?: boolean;
+}
+
+// One stop of a batch request; the batch-level fields apply to every item
+// and anything else at that level is ignored
+export interface OutlookBatchItem {
+  id: string;
+  lat: number;
+  lon: number;
+  date: string;
+  window?: number;
+}
+
+export interface OutlookBatchRequest extends Pick<OutlookRequest, "units" | "thresholds" | "rule_set" | "provider"> {
+  items: OutlookBatchItem[];
+}
+
+// A best-date search: every date from `start_date` to `end_date` is scored
+// against `criteria`, and the top `limit` are ranked
+export interface BestDatesRequest {
+  lat: number;
+  lon: number;
+  start_date: string;
+  end_date: string;
+  criteria?: BestDateCriterion[];
+  limit?: number;
+  window?: number;
+  units?: UnitSystem;
+  rule_set?: string | RuleSet;
+  provider?: string;
+}
+
+// A year-round calendar for one location
+export interface CalendarRequest {
+  lat: number;
+  lon: number;
+  window?: number;
+  units?: UnitSystem;
+  rule_set?: string | RuleSet;
+  provider?: string;
+}
+
+// Longest event a date-range request may cover
+export const MAX_SPAN_DAYS = 31;
+
+// Longest search period of a best-date request, and default ranked dates
+export const MAX_SEASON_DAYS = 366;
+export const DEFAULT_BEST_DATES_LIMIT = 10;
+
+// Validation functions
+export function validateLat(lat: number): boolean {
+  return !isNaN(lat) && lat >= -90 && lat <= 90;
+}
+
+export function validateLon(lon: number): boolean {
+  return !isNaN(lon) && lon >= -180 && lon <= 180;
+}
+
+export function validateDate(date: string): boolean {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(date)) return false;
+  const dateObj = new Date(date);
+  // Reject dates that roll over, such as 2024-02-30
+  return !isNaN(dateObj.getTime()) && dateObj.toISOString().startsWith(date);
+}
+
+export function validateWindow(window: number): boolean {
+  return !isNaN(window) && window >= 7 && window <= 30;
+}
+
+export function validateUnits(units: string): units is UnitSystem {
+  return units === "metric" || units === "imperial";
+}
+
+export function validateFormat(format: string): format is "json" | "csv" {
+  return format === "json" || format === "csv";
+}
+
+// Days from start to end inclusive; both must be valid dates
+export function spanDays(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86400000) + 1;
+}
+
+// Problems with the location every request carries
+function locationErrors(lat: unknown, lon: unknown): FieldError[] {
+  const errors: FieldError[] = [];
+  if (typeof lat !== "number" || !validateLat(lat)) {
+    errors.push({ field: "lat", message: "Latitude must be a number between -90 and 90." });
+  }
+  if (typeof lon !== "number" || !validateLon(lon)) {
+    errors.push({ field: "lon", message: "Longitude must be a number between -180 and 180." });
+  }
+  return errors;
+}
+
+// Problems with the sampling options shared by every request
+function optionErrors({ window, units, rule_set }: Record<string, unknown>): FieldError[] {
+  const errors: FieldError[] = [];
+  if (window !== undefined && (typeof window !== "number" || !validateWindow(window))) {
+    errors.push({ field: "window", message: "Window must be between 7 and 30 days." });
+  }
+  if (units !== undefined && (typeof units !== "string" || !validateUnits(units))) {
+    errors.push({ field: "units", message: "Units must be 'metric' or 'imperial'." });
+  }
+  if (typeof rule_set === "string") {
+    if (!findPresetRuleSet(rule_set)) {
+      errors.push({ field: "rule_set", message: `Unknown rule set '${rule_set}'.` });
+    }
+  } else if (rule_set !== undefined) {
+    validateRuleSet(rule_set).forEach(message => errors.push({ field: "rule_set", message }));
+  }
+  return errors;
+}
+
+// Check every request field and report all problems at once. Thresholds and
+// provider ids depend on the server's metric and provider lists, so the
+// handler checks those itself.
+export function validateOutlookRequest(params: Record<string, unknown>): FieldError[] {
+  const { lat, lon, date, start_date, end_date, format, compare_year, include_samples } = params;
+  const errors = locationErrors(lat, lon);
+
+  if (start_date !== undefined || end_date !== undefined) {
+    const startValid = typeof start_date === "string" && validateDate(start_date);
+    const endValid = typeof end_date === "string" && validateDate(end_date);
+    if (date !== undefined) {
+      errors.push({ field: "date", message: "Send either 'date' or 'start_date' and 'end_date', not both." });
+    }
+    if (!startValid) {
+      errors.push({ field: "start_date", message: "Parameter 'start_date' must be a valid YYYY-MM-DD date." });
+    }
+    if (!endValid) {
+      errors.push({ field: "end_date", message: "Parameter 'end_date' must be a valid YYYY-MM-DD date." });
+    }
+    if (startValid && endValid) {
+      const days = spanDays(start_date as string, end_date as string);
+      if (days < 1) {
+        errors.push({ field: "end_date", message: "Parameter 'end_date' must not be before 'start_date'." });
+      } else if (days > MAX_SPAN_DAYS) {
+        errors.push({ field: "end_date", message: `A date range may cover at most ${MAX_SPAN_DAYS} days.` });
+      }
+    }
+  } else if (typeof date !== "string" || !validateDate(date)) {
+    errors.push({ field: "date", message: "Parameter 'date' must be a valid YYYY-MM-DD date." });
+  }
+  if (format !== undefined && (typeof format !== "string" || !validateFormat(format))) {
+    errors.push({ field: "format", message: "Format must be 'json' or 'csv'." });
+  }
+  if (
+    compare_year !== undefined &&
+    (typeof compare_year !== "number" || !Number.isInteger(compare_year) || compare_year > new Date().getUTCFullYear())
+  ) {
+    errors.push({ field: "compare_year", message: "Compare year must be a whole year, not in the future." });
+  }
+  if (include_samples !== undefined && typeof include_samples !== "boolean") {
+    errors.push({ field: "include_samples", message: "Parameter 'include_samples' must be true or false." });
+  }
+
+  return [...errors, ...optionErrors(params)];
+}
+
+// Check a best-date request; criteria metrics depend on the server's metric
+// list, so the handler checks those itself
+export function validateBestDatesRequest(params: Record<string, unknown>): FieldError[] {
+  const { lat, lon, start_date, end_date, limit } = params;
+  const errors = locationErrors(lat, lon);
+
+  const startValid = typeof start_date === "string" && validateDate(start_date);
+  const endValid = typeof end_date === "string" && validateDate(end_date);
+  if (!startValid) {
+    errors.push({ field: "start_date", message: "Parameter 'start_date' must be a valid YYYY-MM-DD date." });
+  }
+  if (!endValid) {
+    errors.push({ field: "end_date", message: "Parameter 'end_date' must be a valid YYYY-MM-DD date." });
+  }
+  if (startValid && endValid) {
+    const days = spanDays(start_date as string, end_date as string);
+    if (days < 1) {
+      errors.push({ field: "end_date", message: "Parameter 'end_date' must not be before 'start_date'." });
+    } else if (days > MAX_SEASON_DAYS) {
+      errors.push({ field: "end_date", message: `A search period may cover at most ${MAX_SEASON_DAYS} days.` });
+    }
+  }
+  if (limit !== undefined && (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_SEASON_DAYS)) {
+    errors.push({ field: "limit", message: `Limit must be a whole number between 1 and ${MAX_SEASON_DAYS}.` });
+  }
+
+  return [...errors, ...optionErrors(params)];
+}
+
+// Check a climate calendar request, which covers the whole year
+export function validateCalendarRequest(params: Record<string, unknown>): FieldError[] {
+  return [...locationErrors(params.lat, params.lon), ...optionErrors(params)];
+}
@@ -0,0 +1,39 @@
+// deno test --allow-env --allow-read --import-map=supabase/functions/import_map.json supabase/functions/_shared
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { validateDate, validateOutlookRequest } from "./validation.ts";
+
+const fields = (params: Record<string, unknown>) => validateOutlookRequest(params).map(error => error.field);
+
+Deno.test("validateOutlookRequest accepts the equator and the prime meridian", () => {
+  assertEquals(validateOutlookRequest({ lat: 0, lon: 0, date: "2026-07-15" }), []);
+});
+
+Deno.test("validateOutlookRequest reports every invalid field at once", () => {
+  assertEquals(
+    fields({ lat: 91, lon: -181, date: "2026-13-01", window: 3, units: "kelvin", format: "xml" }),
+    ["lat", "lon", "date", "format", "window", "units"]
+  );
+});
+
+Deno.test("validateDate rejects dates that roll over", () => {
+  assert(validateDate("2024-02-29"));
+  assert(!validateDate("2023-02-29"));
+  assert(!validateDate("2024-02-30"));
+  assert(!validateDate("2024-04-31"));
+  assertEquals(fields({ lat: 10, lon: 10, date: "2025-02-29" }), ["date"]);
+});
+
+Deno.test("validateOutlookRequest bounds the window and the date range", () => {
+  assertEquals(fields({ lat: 10, lon: 10, date: "2026-07-15", window: 7 }), []);
+  assertEquals(fields({ lat: 10, lon: 10, date: "2026-07-15", window: 30 }), []);
+  assertEquals(fields({ lat: 10, lon: 10, date: "2026-07-15", window: 6 }), ["window"]);
+  assertEquals(fields({ lat: 10, lon: 10, date: "2026-07-15", window: 31 }), ["window"]);
+
+  assertEquals(fields({ lat: 10, lon: 10, start_date: "2026-07-01", end_date: "2026-07-01" }), []);
+  // At most MAX_SPAN_DAYS (31) days, counting both ends
+  assertEquals(fields({ lat: 10, lon: 10, start_date: "2026-07-01", end_date: "2026-07-31" }), []);
+  assertEquals(fields({ lat: 10, lon: 10, start_date: "2026-07-01", end_date: "2026-08-01" }), ["end_date"]);
+  assertEquals(fields({ lat: 10, lon: 10, start_date: "2026-07-02", end_date: "2026-07-01" }), ["end_date"]);
+  assertEquals(fields({ lat: 10, lon: 10, start_date: "2026-07-01" }), ["end_date"]);
+  assertEquals(fields({ lat: 10, lon: 10, date: "2026-07-01", start_date: "2026-07-01", end_date: "2026-07-02" }), ["date"]);
+});
@@ -0,0 +1,27 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleOutlookBatchRequest } from "../_shared/outlook.ts";
+import { errorHeaders, outlookError, toOutlookError } from "../_shared/errors.ts";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const params = await req.json().catch(() => null);
+
+    if (typeof params !== 'object' || params === null) {
+      throw outlookError(400, 'INVALID_PARAM', 'Request body must be a JSON object.');
+    }
+
+    // Per-item failures are reported inside `results`; the batch itself succeeds
+    return jsonResponse(await handleOutlookBatchRequest(params));
+  } catch (error) {
+    const envelope = toOutlookError(error);
+    if (envelope.error.code === 'INTERNAL') {
+      console.error('Outlook batch error:', error);
+    }
+    return jsonResponse(envelope, envelope.error.status, errorHeaders(envelope));
+  }
+});
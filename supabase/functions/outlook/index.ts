@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { toOutlookCsv } from "../_shared/csv.ts";
+import { handleOutlookRequest } from "../_shared/outlook.ts";
+import { errorHeaders, invalidParams, outlookError, toOutlookError } from "../_shared/errors.ts";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { OutlookRequest } from "../_shared/validation.ts";
+
+// GET requests take the same fields as a POST body in the query string;
+// `thresholds` and a custom `rule_set` are JSON-encoded
+function fromSearchParams(params: URLSearchParams): OutlookRequest {
+  const number = (name: string) => (params.has(name) ? Number(params.get(name)) : undefined);
+  const text = (name: string) => params.get(name) ?? undefined;
+  const json = (name: string) => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw invalidParams([{ field: name, message: `Parameter '${name}' must be JSON.` }]);
+    }
+  };
+  return {
+    lat: number('lat') ?? NaN,
+    lon: number('lon') ?? NaN,
+    date: text('date'),
+    start_date: text('start_date'),
+    end_date: text('end_date'),
+    window: number('window'),
+    units: text('units') as OutlookRequest['units'],
+    format: text('format') as OutlookRequest['format'],
+    thresholds: json('thresholds'),
+    rule_set: text('rule_set')?.trimStart().startsWith('{') ? json('rule_set') : text('rule_set'),
+    provider: text('provider'),
+    compare_year: number('compare_year'),
+    include_samples: params.has('include_samples') ? params.get('include_samples') === 'true' : undefined,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const params = req.method === 'GET'
+      ? fromSearchParams(new URL(req.url).searchParams)
+      : await req.json().catch(() => null);
+
+    if (typeof params !== 'object' || params === null) {
+      throw outlookError(400, 'INVALID_PARAM', 'Request body must be a JSON object.');
+    }
+
+    const outlook = await handleOutlookRequest(params);
+
+    if (params.format === 'csv') {
+      // Name the file after the resolved dates, which a range request does not send as `date`
+      const dates = outlook.span
+        ? `${outlook.span.start_date}-to-${outlook.span.end_date}`
+        : outlook.metadata.date_requested;
+      const filename = `climate-outlook-${params.lat}-${params.lon}-${dates}.csv`;
+      return new Response(toOutlookCsv(outlook), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return jsonResponse(outlook);
+  } catch (error) {
+    const envelope = toOutlookError(error);
+    if (envelope.error.code === 'INTERNAL') {
+      console.error('Outlook error:', error);
+    }
+    return jsonResponse(envelope, envelope.error.status, errorHeaders(envelope));
+  }
+});
@@ -1,31 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildForecast } from "../_shared/forecast.ts";
+import { resolveForecastParams } from "../_shared/outlook.ts";
+import { parseWeatherForecastResponse } from "../_shared/schema.ts";
+import { errorHeaders, outlookError, toOutlookError } from "../_shared/errors.ts";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface HourlyData {
-  datetime: Date;
-  temperature: number;
-}
-
-interface DailyMetrics {
-  day: string;
-  Tmin: number;
-  Tmax: number;
-  sunTmean: number;
-  nightTmean: number;
-  rain_sum: number;
-  snowfall_sum: number;
-  precipitation_sum: number;
-  cloud_cover_mean: number;
-  relative_humidity_2m_mean: number;
-  wind_speed_10m_mean: number;
-  uv_index_max: number;
-  sunrise: Date;
-  sunset: Date;
-}
+const invalidParam = (message: string) => outlookError(400, 'INVALID_PARAM', message);
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -33,279 +13,21 @@ serve(async (req) => {
   }
 
   try {
-    const { lat, lon, date, window = 7, units = "metric" } = await req.json();
-    
-    // Validate inputs
-    if (!lat || !lon || !date) {
-      return new Response(
-        JSON.stringify({ error: "Missing required parameters: lat, lon, date" }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    
-    const targetDate = new Date(date);
-    
-    console.log(`Fetching comprehensive weather data for lat=${lat}, lon=${lon}, date=${date}`);
-    
-    // Open-Meteo Historical Forecast API has data from 2016-01-01 to current date minus a few days
-    const maxAllowedDate = new Date('2025-10-20'); // API limit
-    const minAllowedDate = new Date('2016-01-01');
-    
-    // Calculate the corresponding date from a previous year that's within the allowed range
-    let historicalDate = new Date(targetDate);
-    historicalDate.setFullYear(historicalDate.getFullYear() - 1);
-    
-    // If still out of range, go back more years
-    while (historicalDate > maxAllowedDate) {
-      historicalDate.setFullYear(historicalDate.getFullYear() - 1);
-    }
-    
-    // Make sure we're not before the minimum date
-    if (historicalDate < minAllowedDate) {
-      historicalDate = new Date(minAllowedDate);
-      historicalDate.setMonth(targetDate.getMonth());
-      historicalDate.setDate(targetDate.getDate());
-    }
-    
-    // Calculate start and end dates for the window
-    const startDate = new Date(historicalDate);
-    startDate.setDate(startDate.getDate() - Math.floor(window / 2));
-    const endDate = new Date(historicalDate);
-    endDate.setDate(endDate.getDate() + Math.floor(window / 2));
-    
-    // Ensure dates are within allowed range
-    if (startDate < minAllowedDate) {
-      startDate.setTime(minAllowedDate.getTime());
+    const body = await req.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw invalidParam('Request body must be a JSON object.');
     }
-    if (endDate > maxAllowedDate) {
-      endDate.setTime(maxAllowedDate.getTime());
-    }
-    
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
-    
-    console.log(`Using historical data range: ${startDateStr} to ${endDateStr}`);
-    
-    // Build Open-Meteo Historical Forecast API URL with comprehensive data
-    const apiUrl = new URL('https://historical-forecast-api.open-meteo.com/v1/forecast');
-    apiUrl.searchParams.set('latitude', lat.toString());
-    apiUrl.searchParams.set('longitude', lon.toString());
-    apiUrl.searchParams.set('start_date', startDateStr);
-    apiUrl.searchParams.set('end_date', endDateStr);
-    
-    // Hourly data
-    apiUrl.searchParams.set('hourly', 'temperature_2m');
-    
-    // Daily data
-    apiUrl.searchParams.set('daily', [
-      'rain_sum',
-      'snowfall_sum',
-      'precipitation_sum',
-      'sunset',
-      'sunrise',
-      'cloud_cover_mean',
-      'relative_humidity_2m_mean',
-      'wind_speed_10m_mean',
-      'uv_index_max'
-    ].join(','));
-    
-    apiUrl.searchParams.set('temperature_unit', units === 'metric' ? 'celsius' : 'fahrenheit');
-    apiUrl.searchParams.set('precipitation_unit', units === 'metric' ? 'mm' : 'inch');
-    apiUrl.searchParams.set('wind_speed_unit', units === 'metric' ? 'kmh' : 'mph');
-    apiUrl.searchParams.set('timezone', 'auto');
-    
-    console.log(`Calling Open-Meteo Historical Forecast API: ${apiUrl.toString()}`);
-    
-    // Fetch from Open-Meteo
-    const apiResponse = await fetch(apiUrl.toString());
-    
-    if (!apiResponse.ok) {
-      const errorText = await apiResponse.text();
-      console.error(`Open-Meteo API error response: ${errorText}`);
-      throw new Error(`Open-Meteo API error: ${apiResponse.statusText}`);
-    }
-    
-    const weatherData = await apiResponse.json();
-    
-    // Process hourly data
-    const hourlyData: HourlyData[] = weatherData.hourly.time.map((time: string, idx: number) => ({
-      datetime: new Date(time),
-      temperature: weatherData.hourly.temperature_2m[idx]
-    }));
-    
-    // Process daily data
-    const dailyMetrics: DailyMetrics[] = weatherData.daily.time.map((dayStr: string, idx: number) => {
-      const day = new Date(dayStr);
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(day);
-      dayEnd.setHours(23, 59, 59, 999);
-      
-      // Get hourly temperatures for this day
-      const dayHourlyData = hourlyData.filter(h => 
-        h.datetime >= dayStart && h.datetime <= dayEnd
-      );
-      
-      const temps = dayHourlyData.map(h => h.temperature);
-      const Tmin = Math.min(...temps);
-      const Tmax = Math.max(...temps);
-      
-      // Parse sunrise and sunset
-      const sunrise = new Date(weatherData.daily.sunrise[idx]);
-      const sunset = new Date(weatherData.daily.sunset[idx]);
-      
-      // Calculate daytime and nighttime average temperatures
-      const sunriseHour = sunrise.getHours() + sunrise.getMinutes() / 60;
-      const sunsetHour = sunset.getHours() + sunset.getMinutes() / 60;
-      
-      const sunTemps: number[] = [];
-      const nightTemps: number[] = [];
-      
-      dayHourlyData.forEach(h => {
-        const hour = h.datetime.getHours() + h.datetime.getMinutes() / 60;
-        if (hour >= sunriseHour && hour < sunsetHour) {
-          sunTemps.push(h.temperature);
-        } else {
-          nightTemps.push(h.temperature);
-        }
-      });
-      
-      const sunTmean = sunTemps.length > 0 
-        ? sunTemps.reduce((a, b) => a + b, 0) / sunTemps.length 
-        : Tmax;
-      const nightTmean = nightTemps.length > 0 
-        ? nightTemps.reduce((a, b) => a + b, 0) / nightTemps.length 
-        : Tmin;
-      
-      return {
-        day: dayStr,
-        Tmin,
-        Tmax,
-        sunTmean,
-        nightTmean,
-        rain_sum: weatherData.daily.rain_sum[idx] || 0,
-        snowfall_sum: weatherData.daily.snowfall_sum[idx] || 0,
-        precipitation_sum: weatherData.daily.precipitation_sum[idx] || 0,
-        cloud_cover_mean: weatherData.daily.cloud_cover_mean[idx] || 0,
-        relative_humidity_2m_mean: weatherData.daily.relative_humidity_2m_mean[idx] || 0,
-        wind_speed_10m_mean: weatherData.daily.wind_speed_10m_mean[idx] || 0,
-        uv_index_max: weatherData.daily.uv_index_max[idx] || 0,
-        sunrise,
-        sunset
-      };
-    });
-    
-    console.log('Processed daily metrics:', dailyMetrics);
-    
-    // Calculate averages across the window
-    const avgMetrics = {
-      Tmin: dailyMetrics.reduce((sum, d) => sum + d.Tmin, 0) / dailyMetrics.length,
-      Tmax: dailyMetrics.reduce((sum, d) => sum + d.Tmax, 0) / dailyMetrics.length,
-      Tmean: dailyMetrics.reduce((sum, d) => sum + (d.Tmin + d.Tmax) / 2, 0) / dailyMetrics.length,
-      sunTmean: dailyMetrics.reduce((sum, d) => sum + d.sunTmean, 0) / dailyMetrics.length,
-      nightTmean: dailyMetrics.reduce((sum, d) => sum + d.nightTmean, 0) / dailyMetrics.length,
-      precipitation: dailyMetrics.reduce((sum, d) => sum + d.precipitation_sum, 0) / dailyMetrics.length,
-      rain: dailyMetrics.reduce((sum, d) => sum + d.rain_sum, 0) / dailyMetrics.length,
-      snowfall: dailyMetrics.reduce((sum, d) => sum + d.snowfall_sum, 0) / dailyMetrics.length,
-      cloudCover: dailyMetrics.reduce((sum, d) => sum + d.cloud_cover_mean, 0) / dailyMetrics.length,
-      humidity: dailyMetrics.reduce((sum, d) => sum + d.relative_humidity_2m_mean, 0) / dailyMetrics.length,
-      windSpeed: dailyMetrics.reduce((sum, d) => sum + d.wind_speed_10m_mean, 0) / dailyMetrics.length,
-      uvIndex: dailyMetrics.reduce((sum, d) => sum + d.uv_index_max, 0) / dailyMetrics.length
-    };
-    
-    // Calculate precipitation probability (percentage of days with rain)
-    const daysWithRain = dailyMetrics.filter(d => d.precipitation_sum > 0.1).length;
-    const precipProb = Math.min(100, Math.round((daysWithRain / dailyMetrics.length) * 100));
-    
-    // Determine conditions
-    const getOutlook = () => {
-      if (avgMetrics.Tmean < 5) return 'Very cold conditions expected';
-      if (avgMetrics.Tmean < 15) return 'Cool conditions expected';
-      if (avgMetrics.Tmean < 25) return 'Mild conditions expected';
-      if (avgMetrics.Tmean < 30) return 'Warm conditions expected';
-      return 'Hot conditions expected';
-    };
-    
-    const getPrecipitationRisk = () => {
-      if (precipProb > 70) return 'Very High';
-      if (precipProb > 50) return 'High';
-      if (precipProb > 30) return 'Moderate';
-      return 'Low';
-    };
-    
-    const getWindCondition = () => {
-      if (avgMetrics.windSpeed > 40) return 'Very windy - strong wind warning';
-      if (avgMetrics.windSpeed > 30) return 'Windy - caution outdoors';
-      if (avgMetrics.windSpeed > 20) return 'Breezy conditions';
-      return 'Light winds';
-    };
-    
-    // Format response
-    const response = {
-      metadata: {
-        location: { latitude: lat, longitude: lon },
-        date: date,
-        window: window,
-        units: units,
-        model: 'Advanced Climate Models',
-        dataSource: 'Open-Meteo Historical Forecast API',
-        generatedAt: new Date().toISOString(),
-      },
-      forecast: {
-        temperature: {
-          mean: Math.round(avgMetrics.Tmean * 10) / 10,
-          min: Math.round(avgMetrics.Tmin * 10) / 10,
-          max: Math.round(avgMetrics.Tmax * 10) / 10,
-          daytime: Math.round(avgMetrics.sunTmean * 10) / 10,
-          nighttime: Math.round(avgMetrics.nightTmean * 10) / 10,
-          unit: units === 'metric' ? '°C' : '°F',
-          confidence: 0.85
-        },
-        precipitation: {
-          probability: precipProb,
-          amount: Math.round(avgMetrics.precipitation * 10) / 10,
-          rain: Math.round(avgMetrics.rain * 10) / 10,
-          snow: Math.round(avgMetrics.snowfall * 10) / 10,
-          unit: units === 'metric' ? 'mm' : 'inch',
-          confidence: 0.75
-        },
-        wind: {
-          speed: Math.round(avgMetrics.windSpeed * 10) / 10,
-          unit: units === 'metric' ? 'km/h' : 'mph',
-          condition: getWindCondition()
-        },
-        atmosphere: {
-          humidity: Math.round(avgMetrics.humidity),
-          cloudCover: Math.round(avgMetrics.cloudCover),
-          uvIndex: Math.round(avgMetrics.uvIndex * 10) / 10
-        }
-      },
-      summary: {
-        outlook: getOutlook(),
-        precipitationRisk: getPrecipitationRisk(),
-        windCondition: getWindCondition(),
-        reliability: 'Based on historical forecast data and climate patterns'
-      },
-      dailyBreakdown: dailyMetrics.map(d => ({
-        date: d.day,
-        tempMin: Math.round(d.Tmin * 10) / 10,
-        tempMax: Math.round(d.Tmax * 10) / 10,
-        precipitation: Math.round(d.precipitation_sum * 10) / 10,
-        windSpeed: Math.round(d.wind_speed_10m_mean * 10) / 10,
-        uvIndex: Math.round(d.uv_index_max * 10) / 10
-      }))
-    };
-    
-    return new Response(
-      JSON.stringify(response),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-    
+
+    // Same rules as the outlook API, with this endpoint's 7-day default window;
+    // a payload that breaks the schema fails as INTERNAL rather than being sent
+    const response = parseWeatherForecastResponse(await buildForecast(resolveForecastParams(body, 7)));
+    return jsonResponse(response);
   } catch (error) {
-    console.error('Weather forecast error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    // Every failure uses the OutlookError envelope; transient ones carry Retry-After
+    const envelope = toOutlookError(error);
+    if (envelope.error.code === 'INTERNAL') {
+      console.error('Weather forecast error:', error);
+    }
+    return jsonResponse(envelope, envelope.error.status, errorHeaders(envelope));
   }
 });
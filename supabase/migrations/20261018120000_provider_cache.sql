@@ -0,0 +1,13 @@
+-- Normalized daily records from climate providers, keyed by
+-- provider:lat:lon:start:end with coordinates snapped to the provider grid.
+-- Written and read only by edge functions using the service role.
+create table if not exists public.provider_cache (
+  key text primary key,
+  records jsonb not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists provider_cache_expires_at_idx on public.provider_cache (expires_at);
+
+alter table public.provider_cache enable row level security;
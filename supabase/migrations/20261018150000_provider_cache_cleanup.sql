@@ -0,0 +1,15 @@
+-- Expired provider_cache rows are never read again (lookups filter on
+-- expires_at), so delete them nightly instead of letting the table grow.
+create extension if not exists pg_cron;
+
+create or replace function public.purge_expired_provider_cache()
+returns integer
+language sql
+as $$
+  with purged as (
+    delete from public.provider_cache where expires_at <= now() returning 1
+  )
+  select count(*)::integer from purged;
+$$;
+
+select cron.schedule('purge-expired-provider-cache', '17 3 * * *', 'select public.purge_expired_provider_cache()');
@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules shared with the Supabase edge functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));